@@ -2,4 +2,5 @@ module.exports = {
   preset: "ts-jest",
   testEnvironment: "node",
   testTimeout: 60000,
+  setupFiles: ["<rootDir>/tests/setupEnv.ts"],
 };
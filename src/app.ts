@@ -6,13 +6,26 @@ import winston from "winston";
 import compression from "compression";
 
 import myListRoutes from "./routes/myList.route";
+import listRoutes from "./routes/list.route";
+import progressRoutes from "./routes/progress.route";
+import recommendationRoutes from "./routes/recommendation.route";
+import sharedRoutes from "./routes/shared.route";
+import healthRoutes from "./routes/health.route";
 import { errorHandler } from "./middleware/errorHandler";
 import { requireUser } from "./middleware/requireUser";
+import { rateLimit } from "./middleware/rateLimit";
+import { httpMetrics } from "./middleware/metrics";
 import logger from "./utils/logger";
+import { renderMetrics } from "./utils/metrics";
 
 // Initializes instance of express
 const app = express();
-app.use(express.json());
+// list pages send their own version-based ETag (see listETag) and none when
+// the versions are unknown or the page is stale; Express's weak body-hash
+// ETag (and the 304 it allows) would validate exactly those pages
+app.set("etag", false);
+app.use(httpMetrics); // request durations for /metrics
+app.use(express.json({ limit: "1mb" })); // large enough for list imports
 app.use(
   morgan("combined", {
     stream: { write: (message) => logger.info(message.trim()) },
@@ -24,14 +37,22 @@ app.use(helmet()); // basic security headers
 app.use(cors({ origin: true })); // tighten origin in prod
 app.use(compression()); // gzip responses
 
-// requireUser for all mylist routes (simple auth stub)
-// we can use JWT or other auth methods later - for now, just a header
-app.use("/api/mylist", requireUser, myListRoutes);
+// requireUser for all mylist routes (bearer token, see config/auth.ts),
+// then the per-user rate limits
+app.use("/api/mylist", requireUser, rateLimit, myListRoutes);
+app.use("/api/lists", requireUser, rateLimit, listRoutes);
+app.use("/api/progress", requireUser, rateLimit, progressRoutes);
+app.use("/api/recommendations", requireUser, rateLimit, recommendationRoutes);
+// shared lists are public: the share token is the credential
+app.use("/api/shared", sharedRoutes);
 
-// health
-app.get("/health", (req, res) =>
-  res.send({ status: "ok", timestamp: Date.now() }),
-);
+// health: /health/live and /health/ready (see services/health.service.ts)
+app.use("/health", healthRoutes);
+
+// Prometheus scrape endpoint
+app.get("/metrics", (req, res) => {
+  res.type("text/plain; version=0.0.4").send(renderMetrics());
+});
 
 app.use(errorHandler);
 
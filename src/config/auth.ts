@@ -0,0 +1,63 @@
+import fs from "fs";
+import { createPublicKey, KeyObject } from "crypto";
+
+export interface AuthConfig {
+  // HS256 shared secret (JWT_SECRET)
+  hsSecret?: string;
+  // RS256 public keys by kid ("" for a key without kid)
+  rsaKeys: Map<string, KeyObject>;
+  audience?: string;
+  issuer?: string;
+  // scope every token must carry, if set
+  requiredScope?: string;
+  clockToleranceSeconds: number;
+  // accept the unauthenticated X-User-Id header (local development only)
+  allowDevHeader: boolean;
+}
+
+function loadRsaKeys(env: NodeJS.ProcessEnv) {
+  const keys = new Map<string, KeyObject>();
+  if (env.JWT_PUBLIC_KEY_FILE) {
+    const pem = fs.readFileSync(env.JWT_PUBLIC_KEY_FILE, "utf8");
+    keys.set("", createPublicKey(pem));
+  }
+  if (env.JWT_JWKS_FILE) {
+    const jwks = JSON.parse(fs.readFileSync(env.JWT_JWKS_FILE, "utf8"));
+    for (const jwk of jwks.keys ?? []) {
+      if (jwk.kty !== "RSA" || (jwk.use && jwk.use !== "sig")) continue;
+      keys.set(jwk.kid ?? "", createPublicKey({ key: jwk, format: "jwk" }));
+    }
+  }
+  return keys;
+}
+
+/** Reads the auth settings from the environment and validates them. */
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env) {
+  const config: AuthConfig = {
+    hsSecret: env.JWT_SECRET || undefined,
+    rsaKeys: loadRsaKeys(env),
+    audience: env.JWT_AUDIENCE || undefined,
+    issuer: env.JWT_ISSUER || undefined,
+    requiredScope: env.JWT_REQUIRED_SCOPE || undefined,
+    clockToleranceSeconds: Number(env.JWT_CLOCK_TOLERANCE_SECONDS ?? 30),
+    allowDevHeader: env.AUTH_ALLOW_DEV_HEADER === "true",
+  };
+
+  if (config.allowDevHeader && env.NODE_ENV === "production") {
+    throw new Error("AUTH_ALLOW_DEV_HEADER must not be enabled in production");
+  }
+  if (!config.hsSecret && !config.rsaKeys.size && !config.allowDevHeader) {
+    throw new Error(
+      "no authentication configured: set JWT_SECRET, JWT_PUBLIC_KEY_FILE or JWT_JWKS_FILE",
+    );
+  }
+  return config;
+}
+
+let cached: AuthConfig | undefined;
+
+/** Auth settings, loaded once on first use. */
+export function getAuthConfig(): AuthConfig {
+  if (!cached) cached = loadAuthConfig();
+  return cached;
+}
@@ -15,8 +15,9 @@ const connectDB = async (): Promise<void> => {
 
     console.log("MongoDB connected successfully");
   } catch (error) {
+    // the caller decides whether to exit (server.ts does)
     console.error("MongoDB connection error:", error);
-    process.exit(1);
+    throw error;
   }
 };
 
@@ -0,0 +1,14 @@
+import { Request, Response } from "express";
+import * as service from "../services/health.service";
+
+/** the process is up; says nothing about its dependencies */
+export async function live(req: Request, res: Response) {
+  res.status(200).json({ status: "ok", timestamp: Date.now() });
+}
+
+/** 503 while Mongo is unreachable or the server is shutting down */
+export async function ready(req: Request, res: Response) {
+  const { ready, ...result } = await service.readiness();
+  res.set("Cache-Control", "no-store");
+  res.status(ready ? 200 : 503).json({ ...result, timestamp: Date.now() });
+}
@@ -0,0 +1,43 @@
+import { Request, Response } from "express";
+import * as service from "../services/list.service";
+import { z } from "zod";
+import { HttpError } from "../utils/httpError";
+import "../types/auth";
+
+const ListNameSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+});
+
+export async function getLists(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const lists = await service.getLists(userId);
+  res.json({ lists });
+}
+
+export async function createList(req: Request, res: Response) {
+  const parsed = ListNameSchema.safeParse(req.body);
+  if (!parsed.success)
+    throw new HttpError(400, JSON.stringify(parsed.error.issues));
+  const userId = req.user!.id;
+  const list = await service.createList(userId, parsed.data.name);
+  res.status(201).json({ success: true, list });
+}
+
+export async function renameList(req: Request, res: Response) {
+  const parsed = ListNameSchema.safeParse(req.body);
+  if (!parsed.success)
+    throw new HttpError(400, JSON.stringify(parsed.error.issues));
+  const userId = req.user!.id;
+  const { listId } = req.params;
+  const list = await service.renameList(userId, listId, parsed.data.name);
+  res.status(200).json({ success: true, list });
+}
+
+export async function deleteList(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { listId } = req.params;
+  const removed = await service.deleteList(userId, listId);
+  if (!removed)
+    return res.status(404).json({ success: false, message: "List not found" });
+  return res.status(200).json({ success: true, message: "Removed" });
+}
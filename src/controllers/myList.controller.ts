@@ -3,6 +3,13 @@ import * as service from "../services/myList.service";
 import { toNumberOrDefault } from "../utils/pagination";
 import { z } from "zod";
 import { HttpError } from "../utils/httpError";
+import { csvLine, parseCsv } from "../utils/csv";
+import logger from "../utils/logger";
+import { once } from "events";
+import "../types/auth";
+
+const MAX_SEARCH_LENGTH = 100;
+const MAX_CLIENT_LENGTH = 100;
 
 const AddSchema = z.object({
   contentId: z.string().min(1),
@@ -16,35 +23,375 @@ const AddSchema = z.object({
   }),
 });
 
+const BatchSchema = z.object({
+  operations: z
+    .array(
+      z.discriminatedUnion("op", [
+        AddSchema.extend({
+          op: z.literal("add"),
+          // built from the catalog when absent
+          snapshot: AddSchema.shape.snapshot.optional(),
+        }),
+        z.object({
+          op: z.literal("remove"),
+          contentId: z.string().min(1),
+          episodeId: z.string().min(1).optional(),
+        }),
+      ]),
+    )
+    .min(1)
+    .max(service.MAX_BATCH_SIZE),
+});
+
+const ImportRowSchema = z.object({
+  contentType: z.enum(["movie", "tvshow"]),
+  contentId: z.string().min(1),
+  episodeId: z.string().min(1).optional(),
+});
+
+type ExportFormat = "json" | "csv";
+
+const MoveSchema = z
+  .object({
+    before: z.string().min(1).optional(),
+    after: z.string().min(1).optional(),
+    anchorEpisodeId: z.string().min(1).optional(),
+  })
+  .refine((v) => Boolean(v.before) !== Boolean(v.after), {
+    message: "exactly one of before or after is required",
+  });
+
+// ?visibility=available,unavailable | all
+function parseVisibility(v: unknown): service.ContentVisibility[] | undefined {
+  if (!v) return undefined;
+  if (v === "all") return service.CONTENT_VISIBILITIES;
+  const values = String(v).split(",") as service.ContentVisibility[];
+  if (!values.every((x) => service.CONTENT_VISIBILITIES.includes(x)))
+    throw new HttpError(400, "invalid visibility", "INVALID_QUERY");
+  return values;
+}
+
+// ?expand=content
+function parseExpand(v: unknown): service.ListExpand[] | undefined {
+  if (!v) return undefined;
+  const values = String(v).split(",") as service.ListExpand[];
+  if (!values.every((x) => service.LIST_EXPANDS.includes(x)))
+    throw new HttpError(400, "invalid expand", "INVALID_QUERY");
+  return values;
+}
+
+// ?addedAfter= / ?addedBefore= (ISO 8601)
+function parseDate(v: unknown, name: string): Date | undefined {
+  if (!v) return undefined;
+  const date = new Date(String(v));
+  if (Number.isNaN(date.getTime()))
+    throw new HttpError(400, `invalid ${name}`, "INVALID_QUERY");
+  return date;
+}
+
+// ?format=json|csv
+function parseFormat(v: unknown, fallback: ExportFormat): ExportFormat {
+  if (!v) return fallback;
+  if (v !== "json" && v !== "csv")
+    throw new HttpError(400, "invalid format", "INVALID_QUERY");
+  return v;
+}
+
+// import body: a JSON array of rows or CSV text with a header line
+function importRecords(req: Request, format: ExportFormat): unknown[] {
+  if (format === "json") {
+    if (!Array.isArray(req.body))
+      throw new HttpError(400, "expected a JSON array of rows", "INVALID_BODY");
+    return req.body;
+  }
+  if (typeof req.body !== "string")
+    throw new HttpError(400, "expected a text/csv body", "INVALID_BODY");
+  let lines: string[][];
+  try {
+    lines = parseCsv(req.body);
+  } catch (err: any) {
+    throw new HttpError(400, `invalid CSV: ${err.message}`, "INVALID_CSV");
+  }
+  const [header = [], ...rows] = lines;
+  if (!header.includes("contentType") || !header.includes("contentId"))
+    throw new HttpError(
+      400,
+      "CSV header must name contentType and contentId",
+      "INVALID_CSV",
+    );
+  return rows.map((fields) =>
+    Object.fromEntries(header.map((name, i) => [name, fields[i]])),
+  );
+}
+
+// validate one import record; failures are reported per row
+function toImportRow(record: unknown): service.ImportRow {
+  const raw: any =
+    record && typeof record === "object"
+      ? // exports leave episodeId empty for movies and show-level saves
+        { ...record, episodeId: (record as any).episodeId || undefined }
+      : record;
+  const parsed = ImportRowSchema.safeParse(raw);
+  if (!parsed.success)
+    return new HttpError(
+      400,
+      JSON.stringify(parsed.error.issues),
+      "INVALID_ROW",
+    );
+  return parsed.data;
+}
+
+// client making a change, for the activity log
+function clientOf(req: Request) {
+  return (req.get("X-Client") || req.get("User-Agent") || "unknown").slice(
+    0,
+    MAX_CLIENT_LENGTH,
+  );
+}
+
+// write respecting backpressure; resolves early when the client went away
+async function writeChunk(res: Response, chunk: string) {
+  if (res.write(chunk)) return;
+  await Promise.race([once(res, "drain"), once(res, "close")]);
+}
+
+// ?q= title search
+function parseSearch(v: unknown): string | undefined {
+  if (v === undefined) return undefined;
+  const q = String(v);
+  if (q.length > MAX_SEARCH_LENGTH)
+    throw new HttpError(400, "q is too long", "INVALID_QUERY");
+  return q;
+}
+
 export async function addItem(req: Request, res: Response) {
   const parsed = AddSchema.safeParse(req.body);
   if (!parsed.success)
     throw new HttpError(400, JSON.stringify(parsed.error.issues));
-  const userId = (req as any).userId;
-  const item = await service.addToList(userId, parsed.data);
+  const userId = req.user!.id;
+  const { listId } = req.params;
+  const item = await service.addToList(userId, {
+    ...parsed.data,
+    listId,
+    source: clientOf(req),
+  });
   res.status(201).json({ success: true, item });
 }
 
 export async function removeItem(req: Request, res: Response) {
-  const userId = (req as any).userId;
-  const { contentId } = req.params;
-  const removed = await service.removeFromList(userId, contentId);
+  const userId = req.user!.id;
+  const { contentId, listId } = req.params;
+  const episodeId = (req.query.episodeId as string) || undefined;
+  const removed = await service.removeFromList(
+    userId,
+    contentId,
+    listId,
+    episodeId,
+    clientOf(req),
+  );
   if (!removed)
     return res.status(404).json({ success: false, message: "Item not found" });
   return res.status(200).json({ success: true, message: "Removed" });
 }
 
+export async function restoreItem(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { contentId, listId } = req.params;
+  const episodeId = (req.query.episodeId as string) || undefined;
+  const item = await service.restoreItem(
+    userId,
+    contentId,
+    listId,
+    episodeId,
+    clientOf(req),
+  );
+  res.status(200).json({ success: true, item });
+}
+
+export async function listTrash(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { listId } = req.params;
+  const limit = toNumberOrDefault(req.query.limit, 20);
+  const cursor = req.query.cursor as string | undefined;
+  const result = await service.getTrash(userId, { limit, cursor, listId });
+  res.status(200).json({ success: true, ...result });
+}
+
+export async function listActivity(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { listId } = req.params;
+  const limit = toNumberOrDefault(req.query.limit, 20);
+  const cursor = req.query.cursor as string | undefined;
+  const result = await service.getActivity(userId, { limit, cursor, listId });
+  res.status(200).json({ success: true, ...result });
+}
+
+export async function listChanges(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { listId } = req.params;
+  const limit = toNumberOrDefault(req.query.limit, 20);
+  const since = (req.query.since as string) || undefined;
+  const result = await service.getChanges(userId, { since, limit, listId });
+  res.status(200).json({ success: true, ...result });
+}
+
+export async function batchItems(req: Request, res: Response) {
+  const parsed = BatchSchema.safeParse(req.body);
+  if (!parsed.success)
+    throw new HttpError(400, JSON.stringify(parsed.error.issues));
+  const userId = req.user!.id;
+  const { listId } = req.params;
+  const results = await service.batchUpdate(
+    userId,
+    parsed.data.operations,
+    listId,
+    clientOf(req),
+  );
+  res.status(200).json({ success: true, results });
+}
+
+export async function exportItems(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { listId } = req.params;
+  const format = parseFormat(req.query.format, "json");
+  const rows = await service.exportList(userId, listId);
+
+  res
+    .status(200)
+    .type(format === "csv" ? "text/csv" : "application/json")
+    .attachment(`mylist.${format}`);
+  try {
+    if (format === "csv") {
+      await writeChunk(res, csvLine(service.EXPORT_COLUMNS));
+    } else {
+      await writeChunk(res, "[");
+    }
+    let first = true;
+    for await (const row of rows) {
+      if (res.destroyed) break;
+      if (format === "csv") {
+        await writeChunk(
+          res,
+          csvLine(
+            service.EXPORT_COLUMNS.map((c) =>
+              c === "addedAt" ? row.addedAt?.toISOString() : row[c],
+            ),
+          ),
+        );
+      } else {
+        await writeChunk(res, (first ? "\n" : ",\n") + JSON.stringify(row));
+      }
+      first = false;
+    }
+    res.end(format === "json" ? "\n]\n" : undefined);
+  } catch (err) {
+    // headers are sent; cut the response so the client sees it is incomplete
+    logger.error("export failed", err);
+    res.destroy(err as Error);
+  }
+}
+
+export async function importItems(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { listId } = req.params;
+  const format = parseFormat(
+    req.query.format,
+    req.is("text/csv") ? "csv" : "json",
+  );
+  const mode = (req.query.mode ?? "merge") as service.ImportMode;
+  if (!service.IMPORT_MODES.includes(mode))
+    throw new HttpError(400, "invalid mode", "INVALID_QUERY");
+  const rows = importRecords(req, format).map(toImportRow);
+  const report = await service.importList(
+    userId,
+    rows,
+    mode,
+    listId,
+    clientOf(req),
+  );
+  res.status(200).json({ success: true, ...report });
+}
+
+export async function moveItem(req: Request, res: Response) {
+  const parsed = MoveSchema.safeParse(req.body);
+  if (!parsed.success)
+    throw new HttpError(400, JSON.stringify(parsed.error.issues));
+  const userId = req.user!.id;
+  const { contentId, listId } = req.params;
+  const episodeId = (req.query.episodeId as string) || undefined;
+  const item = await service.moveItem(
+    userId,
+    contentId,
+    parsed.data,
+    listId,
+    episodeId,
+    clientOf(req),
+  );
+  res.status(200).json({ success: true, item });
+}
+
+export async function nextEpisode(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { contentId, listId } = req.params;
+  const episodeId = (req.query.episodeId as string) || undefined;
+  const next = await service.getNextEpisode(
+    userId,
+    contentId,
+    listId,
+    episodeId,
+  );
+  res.status(200).json({ success: true, ...next });
+}
+
 export async function listItems(req: Request, res: Response) {
-  const userId = (req as any).userId;
+  const userId = req.user!.id;
   const limit = toNumberOrDefault(req.query.limit, 20);
   const cursor = req.query.cursor as string | undefined;
   const contentType = (req.query.contentType as any) || undefined;
   const includeTotal = req?.query?.includeTotal ?? false;
+  const sort = (req.query.sort as service.ListSort) || undefined;
+  if (sort && !service.LIST_SORTS.includes(sort))
+    throw new HttpError(400, "invalid sort", "INVALID_SORT");
+  const groupBy = (req.query.groupBy as service.ListGroupBy) || undefined;
+  if (groupBy && !service.LIST_GROUP_BYS.includes(groupBy))
+    throw new HttpError(400, "invalid groupBy", "INVALID_QUERY");
+  const visibility = parseVisibility(req.query.visibility);
+  const genre = (req.query.genre as string) || undefined;
+  const q = parseSearch(req.query.q);
+  const addedAfter = parseDate(req.query.addedAfter, "addedAfter");
+  const addedBefore = parseDate(req.query.addedBefore, "addedBefore");
+  const expand = parseExpand(req.query.expand);
 
-  const result = await service.getList(
-    userId,
-    { limit, cursor, contentType },
-    includeTotal as boolean,
-  );
+  const { listId } = req.params;
+  const opts: service.ListOptions = {
+    limit,
+    cursor,
+    contentType,
+    sort,
+    listId,
+    groupBy,
+    visibility,
+    genre,
+    q,
+    addedAfter,
+    addedBefore,
+    expand,
+  };
+
+  // pages are per user; clients revalidate with If-None-Match every time
+  res.set("Cache-Control", "private, no-cache");
+  // taken before the page: a write in between only costs one more full body
+  const etag = await service.listETag(userId, opts, includeTotal as boolean);
+  if (etag) {
+    res.set("ETag", etag);
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+  }
+
+  const result = await service.getList(userId, opts, includeTotal as boolean);
+  // a stale page is not the state the ETag stands for
+  if (result.stale) res.removeHeader("ETag");
   res.json(result);
 }
@@ -0,0 +1,50 @@
+import { Request, Response } from "express";
+import * as service from "../services/progress.service";
+import { z } from "zod";
+import { HttpError } from "../utils/httpError";
+import "../types/auth";
+
+const ProgressSchema = z.object({
+  contentType: z.enum(["movie", "tvshow"]),
+  episodeId: z.string().min(1).optional(),
+  positionSeconds: z.number().min(0),
+  completed: z.boolean().optional(),
+});
+
+const SettingsSchema = z.object({
+  autoRemoveWatched: z.boolean(),
+});
+
+export async function reportProgress(req: Request, res: Response) {
+  const parsed = ProgressSchema.safeParse(req.body);
+  if (!parsed.success)
+    throw new HttpError(400, JSON.stringify(parsed.error.issues));
+  const userId = req.user!.id;
+  const { contentId } = req.params;
+  const result = await service.reportProgress(userId, contentId, parsed.data);
+  res.status(200).json({ success: true, ...result });
+}
+
+export async function getProgress(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { contentId } = req.params;
+  const episodeId = (req.query.episodeId as string) || undefined;
+  const progress = await service.getProgress(userId, contentId, episodeId);
+  if (!progress)
+    return res
+      .status(404)
+      .json({ success: false, message: "No progress recorded" });
+  return res.status(200).json({ success: true, progress });
+}
+
+export async function updateSettings(req: Request, res: Response) {
+  const parsed = SettingsSchema.safeParse(req.body);
+  if (!parsed.success)
+    throw new HttpError(400, JSON.stringify(parsed.error.issues));
+  const userId = req.user!.id;
+  const settings = await service.setAutoRemoveWatched(
+    userId,
+    parsed.data.autoRemoveWatched,
+  );
+  res.status(200).json({ success: true, settings });
+}
@@ -0,0 +1,12 @@
+import { Request, Response } from "express";
+import * as service from "../services/recommendation.service";
+import { toNumberOrDefault } from "../utils/pagination";
+import "../types/auth";
+
+export async function getRecommendations(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const limit = toNumberOrDefault(req.query.limit, 20);
+  const cursor = req.query.cursor as string | undefined;
+  const result = await service.getRecommendations(userId, { limit, cursor });
+  res.status(200).json({ success: true, ...result });
+}
@@ -0,0 +1,38 @@
+import { Request, Response } from "express";
+import * as service from "../services/share.service";
+import { toNumberOrDefault } from "../utils/pagination";
+import "../types/auth";
+
+export async function createShare(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { listId } = req.params;
+  const share = await service.createShare(userId, listId);
+  res.status(201).json({ success: true, share });
+}
+
+export async function getShares(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { listId } = req.params;
+  const shares = await service.getShares(userId, listId);
+  res.json({ shares });
+}
+
+export async function revokeShare(req: Request, res: Response) {
+  const userId = req.user!.id;
+  const { listId, shareId } = req.params;
+  const revoked = await service.revokeShare(userId, shareId, listId);
+  if (!revoked)
+    return res.status(404).json({ success: false, message: "Share not found" });
+  return res.status(200).json({ success: true, message: "Revoked" });
+}
+
+// public: no req.user
+export async function getSharedList(req: Request, res: Response) {
+  const limit = toNumberOrDefault(req.query.limit, 20);
+  const cursor = req.query.cursor as string | undefined;
+  const result = await service.getSharedList(req.params.token, {
+    limit,
+    cursor,
+  });
+  res.status(200).json({ success: true, ...result });
+}
@@ -0,0 +1,125 @@
+// Idempotency-Key support for mutating routes. The first request with a key
+// runs and its response is stored in the cache; retries with the same key replay
+// that response instead of running again (a replayed POST cannot resurrect an
+// item deleted in the meantime). Runs after requireUser: keys are per user.
+
+import { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import "../types/auth";
+import { cache, idempotencyKey } from "../services/myList.cache";
+import { HttpError } from "../utils/httpError";
+import logger from "../utils/logger";
+
+const MAX_KEY_LENGTH = 255;
+// how long a response can be replayed
+const IDEMPOTENCY_TTL_SECONDS = Number(
+  process.env.IDEMPOTENCY_TTL_SECONDS ?? 60 * 60 * 24,
+);
+// a key whose request never finished (crash) is released after this long
+const PENDING_TTL_SECONDS = 60;
+
+type StoredRequest =
+  | { state: "pending"; fingerprint: string }
+  | { state: "done"; fingerprint: string; status: number; body: unknown };
+
+/** hash of what makes two requests the same: route, query and body */
+function fingerprint(req: Request) {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        req.method,
+        req.baseUrl + req.path,
+        req.query,
+        req.body ?? null,
+      ]),
+    )
+    .digest("hex");
+}
+
+export async function idempotent(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const key = req.header("Idempotency-Key");
+  if (key === undefined) return next();
+  if (!key || key.length > MAX_KEY_LENGTH) {
+    throw new HttpError(
+      400,
+      `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`,
+      "INVALID_IDEMPOTENCY_KEY",
+    );
+  }
+  const cacheKey = idempotencyKey(req.user!.id, key);
+  const print = fingerprint(req);
+
+  let claimed: boolean;
+  try {
+    const pending: StoredRequest = { state: "pending", fingerprint: print };
+    claimed = await cache.set(cacheKey, JSON.stringify(pending), {
+      ttlSeconds: PENDING_TTL_SECONDS,
+      ifAbsent: true,
+    });
+  } catch (err) {
+    // without a cache the request runs as if it had no key
+    logger.error("idempotency claim failed", err);
+    return next();
+  }
+
+  if (!claimed) {
+    const raw = await cache.get(cacheKey).catch(() => null);
+    if (!raw) return next();
+    const stored: StoredRequest = JSON.parse(raw);
+    if (stored.fingerprint !== print) {
+      throw new HttpError(
+        422,
+        "Idempotency-Key was used with a different request",
+        "IDEMPOTENCY_KEY_REUSED",
+      );
+    }
+    if (stored.state === "pending") {
+      throw new HttpError(
+        409,
+        "a request with this Idempotency-Key is still in progress",
+        "IDEMPOTENCY_KEY_IN_PROGRESS",
+      );
+    }
+    res.set("Idempotent-Replayed", "true");
+    return res.status(stored.status).json(stored.body);
+  }
+
+  // store the JSON response (errors included) before sending it, so a retry
+  // arriving right after the response is replayed rather than refused
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    store(cacheKey, print, res.statusCode, body).finally(() => json(body));
+    return res;
+  };
+  next();
+}
+
+async function store(
+  cacheKey: string,
+  print: string,
+  status: number,
+  body: unknown,
+) {
+  try {
+    // server errors are not final: let the client retry for real
+    if (status >= 500) {
+      await cache.del(cacheKey);
+      return;
+    }
+    const done: StoredRequest = {
+      state: "done",
+      fingerprint: print,
+      status,
+      body,
+    };
+    await cache.set(cacheKey, JSON.stringify(done), {
+      ttlSeconds: IDEMPOTENCY_TTL_SECONDS,
+    });
+  } catch (err) {
+    logger.error("idempotency store failed", err);
+  }
+}
@@ -0,0 +1,65 @@
+// Request durations for GET /metrics, labeled by method, status and the
+// matched route pattern (e.g. /api/lists/:listId/items/:contentId) rather
+// than the path, which would make a series per id.
+
+import { Request, Response, NextFunction } from "express";
+import { DURATION_BUCKETS, Histogram } from "../utils/metrics";
+
+const httpRequestDuration = new Histogram(
+  "http_request_duration_seconds",
+  "HTTP request duration by method, route and status",
+  DURATION_BUCKETS,
+);
+
+function decodeSegment(segment: string) {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Pattern of the route being dispatched: the mount path (param values put
+ * back as :name) plus the route path. Params are listed in URL order (parent
+ * routers first), so mount params are matched to segments by position, and
+ * equal values of different params keep their own names.
+ */
+function routePattern(req: Request, path: string) {
+  const routeParams = new Set(
+    [...path.matchAll(/:(\w+)/g)].map((match) => match[1]),
+  );
+  const mountParams = Object.entries(req.params ?? {}).filter(
+    ([name]) => !routeParams.has(name),
+  );
+  let next = 0;
+  const base = req.baseUrl
+    .split("/")
+    .map((segment) => {
+      const param = mountParams[next];
+      if (!param || decodeSegment(segment) !== param[1]) return segment;
+      next++;
+      return `:${param[0]}`;
+    })
+    .join("/");
+  return base && path === "/" ? base : base + path;
+}
+
+export function httpMetrics(req: Request, res: Response, next: NextFunction) {
+  const end = httpRequestDuration.startTimer({ method: req.method });
+  // Express resets baseUrl and params once a handler fails, so the pattern
+  // is taken when it assigns req.route on dispatch
+  let route: any;
+  let pattern = "unmatched";
+  Object.defineProperty(req, "route", {
+    configurable: true,
+    enumerable: true,
+    get: () => route,
+    set(value) {
+      route = value;
+      pattern = routePattern(req, value.path);
+    },
+  });
+  res.on("finish", () => end({ route: pattern, status: res.statusCode }));
+  next();
+}
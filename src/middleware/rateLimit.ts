@@ -0,0 +1,65 @@
+// Per-user sliding-window rate limits, kept in the cache so every instance
+// shares them (with Redis). Reads (GET/HEAD) and writes have separate budgets.
+// Runs after requireUser. Without a cache, requests are let through.
+
+import { Request, Response, NextFunction } from "express";
+import { randomBytes } from "crypto";
+import "../types/auth";
+import { cache, rateLimitKey } from "../services/myList.cache";
+import { HttpError } from "../utils/httpError";
+import logger from "../utils/logger";
+
+export type RateLimitKind = "read" | "write";
+
+const WINDOW_MS = Number(process.env.RATE_LIMIT_WINDOW_SECONDS ?? 60) * 1000;
+// requests per user per window
+const LIMITS: Record<RateLimitKind, number> = {
+  read: Number(process.env.RATE_LIMIT_READS ?? 300),
+  write: Number(process.env.RATE_LIMIT_WRITES ?? 60),
+};
+
+export async function rateLimit(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const kind: RateLimitKind =
+    req.method === "GET" || req.method === "HEAD" ? "read" : "write";
+  const limit = LIMITS[kind];
+  const key = rateLimitKey(req.user!.id, kind);
+  const now = Date.now();
+  // unique per request, two requests in the same ms both count
+  const member = `${now}:${randomBytes(4).toString("hex")}`;
+
+  let window;
+  try {
+    // this request is counted in the window it returns
+    window = await cache.windowAdd(key, now, member, WINDOW_MS);
+  } catch (err) {
+    logger.error("rate limit check failed", err);
+    return next();
+  }
+  const limited = window.count > limit;
+  if (limited) {
+    // refused requests do not use up the budget
+    await cache.windowRemove(key, member).catch(() => {});
+  }
+
+  // seconds until the oldest request leaves the window and frees a slot
+  const reset = Math.max(
+    1,
+    Math.ceil((window.oldest + WINDOW_MS - now) / 1000),
+  );
+  res.set("RateLimit-Limit", String(limit));
+  res.set("RateLimit-Remaining", String(limited ? 0 : limit - window.count));
+  res.set("RateLimit-Reset", String(reset));
+  if (limited) {
+    res.set("Retry-After", String(reset));
+    throw new HttpError(
+      429,
+      `at most ${limit} ${kind} requests per ${WINDOW_MS / 1000}s`,
+      "RATE_LIMITED",
+    );
+  }
+  next();
+}
@@ -1,13 +1,78 @@
-// We assume authentication produced a user id; simple middleware reads X-User-Id.
+// Authenticates the caller and puts it on req.user.
+// Production: signed bearer token (HS256 or RS256, see config/auth.ts).
+// Local development only: X-User-Id header when AUTH_ALLOW_DEV_HEADER=true.
 
 import { Request, Response, NextFunction } from "express";
+import { Types } from "mongoose";
+import "../types/auth";
+import { getAuthConfig } from "../config/auth";
+import { HttpError } from "../utils/httpError";
+import { JwtError, verifyJwt } from "../utils/jwt";
+
+function unauthorized(res: Response, message: string, code: string) {
+  res.set("WWW-Authenticate", `Bearer error="invalid_token"`);
+  return new HttpError(401, message, code);
+}
 
 export function requireUser(req: Request, res: Response, next: NextFunction) {
-  const userId = req.header("X-User-Id");
-  if (!userId) {
-    return res.status(401).json({ message: "Missing X-User-Id header" });
+  const config = getAuthConfig();
+  const authorization = req.header("Authorization");
+
+  if (authorization) {
+    const [scheme, token] = authorization.split(" ");
+    if (scheme?.toLowerCase() !== "bearer" || !token) {
+      throw unauthorized(
+        res,
+        "malformed Authorization header",
+        "INVALID_TOKEN",
+      );
+    }
+    let claims;
+    try {
+      claims = verifyJwt(token, config);
+    } catch (err) {
+      if (err instanceof JwtError) {
+        throw unauthorized(
+          res,
+          err.message,
+          err.expired ? "TOKEN_EXPIRED" : "INVALID_TOKEN",
+        );
+      }
+      throw err;
+    }
+
+    // user ids are ObjectIds; a subject minted for another id scheme is unusable
+    if (!Types.ObjectId.isValid(claims.sub!)) {
+      throw unauthorized(
+        res,
+        "token subject is not a user id",
+        "INVALID_TOKEN",
+      );
+    }
+
+    const scopes =
+      typeof claims.scope === "string" ? claims.scope.split(" ") : [];
+    if (config.requiredScope && !scopes.includes(config.requiredScope)) {
+      res.set(
+        "WWW-Authenticate",
+        `Bearer error="insufficient_scope", scope="${config.requiredScope}"`,
+      );
+      throw new HttpError(
+        403,
+        "token lacks required scope",
+        "INSUFFICIENT_SCOPE",
+      );
+    }
+    req.user = { id: claims.sub!, scopes, authMethod: "jwt" };
+    return next();
+  }
+
+  const headerUserId = req.header("X-User-Id");
+  if (headerUserId && config.allowDevHeader) {
+    req.user = { id: headerUserId, scopes: [], authMethod: "header" };
+    return next();
   }
-  // put it on req for handlers
-  (req as any).userId = userId;
-  next();
+
+  res.set("WWW-Authenticate", "Bearer");
+  throw new HttpError(401, "missing bearer token", "UNAUTHENTICATED");
 }
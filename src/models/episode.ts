@@ -1,4 +1,5 @@
 import { Schema, model, Types } from "mongoose";
+import { catalogSyncPlugin } from "../services/catalog.sync";
 
 export interface IEpisode {
   showId: Types.ObjectId;
@@ -6,6 +7,8 @@ export interface IEpisode {
   episodeNumber: number;
   title: string;
   durationMinutes?: number;
+  // false while the title is temporarily unavailable on the platform
+  isAvailable?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -17,8 +20,15 @@ const EpisodeSchema = new Schema(
     episodeNumber: Number,
     title: String,
     durationMinutes: Number,
+    isAvailable: { type: Boolean, default: true },
   },
   { timestamps: true },
 );
 
+// episodes of a show in watch order (next episode resolution)
+EpisodeSchema.index({ showId: 1, season: 1, episodeNumber: 1 });
+
+// propagate deletes/availability changes to list items
+EpisodeSchema.plugin(catalogSyncPlugin, { type: "episode" });
+
 export default model<IEpisode>("Episode", EpisodeSchema);
@@ -0,0 +1,26 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// Progress marker for resumable batch jobs (e.g. snapshot backfill).
+export interface IJobCheckpoint extends Document {
+  name: string;
+  // last processed document id; the next run continues after it
+  lastId?: Types.ObjectId | null;
+  processed: number;
+  updated: number;
+  completedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobCheckpointSchema = new Schema<IJobCheckpoint>(
+  {
+    name: { type: String, required: true, unique: true },
+    lastId: { type: Schema.Types.ObjectId, default: null },
+    processed: { type: Number, default: 0 },
+    updated: { type: Number, default: 0 },
+    completedAt: { type: Date, default: null },
+  },
+  { timestamps: true },
+);
+
+export default model<IJobCheckpoint>("JobCheckpoint", JobCheckpointSchema);
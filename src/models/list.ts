@@ -0,0 +1,23 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// A named list owned by a user ("Weekend", "With the kids", ...).
+// The default "My List" is implicit: its items have no listId.
+export interface IList extends Document {
+  userId: Types.ObjectId;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ListSchema = new Schema<IList>(
+  {
+    userId: { type: Schema.Types.ObjectId, required: true, index: true },
+    name: { type: String, required: true, trim: true },
+  },
+  { timestamps: true },
+);
+
+// list names are unique per user
+ListSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+export default model<IList>("List", ListSchema);
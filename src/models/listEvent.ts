@@ -0,0 +1,59 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+export type ListAction = "add" | "remove" | "restore" | "reorder";
+
+// days list events are kept before the expireAt TTL index drops them
+export const ACTIVITY_RETENTION_DAYS = Number(
+  process.env.MYLIST_ACTIVITY_RETENTION_DAYS ?? 90,
+);
+
+// One change to a list, recorded by services/activity.service.ts.
+// Append-only: events are inserted and expire, they are never updated.
+export interface IListEvent extends Document {
+  userId: Types.ObjectId;
+  // null for the default list
+  listId?: Types.ObjectId | null;
+  action: ListAction;
+  contentId: Types.ObjectId;
+  contentType: "movie" | "tvshow";
+  episodeId?: Types.ObjectId | null;
+  // snapshot title at the time of the change
+  title?: string;
+  // user id, or "system" for automatic changes (autoRemoveWatched)
+  actor: string;
+  // client that made the change (X-Client or User-Agent header)
+  source?: string;
+  expireAt: Date;
+  createdAt: Date;
+}
+
+const ListEventSchema = new Schema<IListEvent>(
+  {
+    userId: { type: Schema.Types.ObjectId, required: true },
+    listId: { type: Schema.Types.ObjectId, default: null },
+    action: {
+      type: String,
+      required: true,
+      enum: ["add", "remove", "restore", "reorder"],
+    },
+    contentId: { type: Schema.Types.ObjectId, required: true },
+    contentType: { type: String, required: true, enum: ["movie", "tvshow"] },
+    episodeId: { type: Schema.Types.ObjectId, default: null },
+    title: { type: String },
+    actor: { type: String, required: true },
+    source: { type: String },
+    expireAt: {
+      type: Date,
+      default: () =>
+        new Date(Date.now() + ACTIVITY_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+    },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+// GET /activity, newest first
+ListEventSchema.index({ userId: 1, listId: 1, createdAt: -1, _id: -1 });
+// retention
+ListEventSchema.index({ expireAt: 1 }, { expireAfterSeconds: 0 });
+
+export default model<IListEvent>("ListEvent", ListEventSchema);
@@ -1,4 +1,5 @@
 import { Schema, model, Document } from "mongoose";
+import { catalogSyncPlugin } from "../services/catalog.sync";
 
 export interface IMovie extends Document {
   title: string;
@@ -9,6 +10,8 @@ export interface IMovie extends Document {
   actors?: string[];
   durationMinutes?: number;
   posterUrl?: string;
+  // false while the title is temporarily unavailable on the platform
+  isAvailable?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -23,8 +26,15 @@ const MovieSchema = new Schema<IMovie>(
     director: { type: String },
     actors: { type: [String], default: [] },
     durationMinutes: { type: Number },
+    isAvailable: { type: Boolean, default: true },
   },
   { timestamps: true },
 );
 
+// recommendation candidates by genre
+MovieSchema.index({ genres: 1 });
+
+// propagate deletes/availability changes to list items
+MovieSchema.plugin(catalogSyncPlugin, { type: "movie" });
+
 export default model<IMovie>("Movie", MovieSchema);
@@ -1,8 +1,30 @@
 import { Schema, model, Document } from "mongoose";
 import { Types } from "mongoose";
 
+export type ContentVisibility = "available" | "unavailable" | "removed";
+
+// days a removed item stays in the trash before the purgeAt TTL index drops it
+export const TRASH_RETENTION_DAYS = Number(
+  process.env.MYLIST_TRASH_RETENTION_DAYS ?? 30,
+);
+
+/** $set that moves items to the trash */
+export function trashUpdate(now: Date = new Date()) {
+  return {
+    deletedAt: now,
+    purgeAt: new Date(
+      now.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    ),
+  };
+}
+
+// case-insensitive ordering for sort=title; queries must use the same collation
+export const TITLE_COLLATION = { locale: "en", strength: 2 };
+
 export interface IMyListItem extends Document {
   userId: Types.ObjectId;
+  // named list the item belongs to; absent/null for the default list
+  listId?: Types.ObjectId | null;
   // contentId points to either Movies or TVShows collection
   contentId: Types.ObjectId;
   contentType: "movie" | "tvshow";
@@ -16,14 +38,30 @@ export interface IMyListItem extends Document {
     posterUrl?: string;
     genres?: string[];
     shortDescription?: string;
+    // sort keys for sort=releaseDate / sort=duration (movies only)
+    releaseDate?: Date;
+    durationMinutes?: number;
   };
+  // lowercase title words for ?q= prefix search (see utils/search.ts)
+  searchTokens?: string[];
   // indicates platform-level availability (soft delete)
-  contentVisibility?: "available" | "unavailable" | "removed";
+  contentVisibility?: ContentVisibility;
+  // fractional rank for user-defined ordering (see utils/rank.ts)
+  rank?: string;
+  // set while the item is in the trash; null/absent for items in the list
+  deletedAt?: Date | null;
+  // when the trashed item is purged (TTL index)
+  purgeAt?: Date;
+  // per-user change seq of the last write (see models/syncCounter.ts)
+  seq?: number;
+  // seq of the write that put the item into the list (add or restore)
+  addedSeq?: number;
 }
 
 const MyListItemSchema = new Schema<IMyListItem>(
   {
     userId: { type: Schema.Types.ObjectId, required: true, index: true },
+    listId: { type: Schema.Types.ObjectId, ref: "List", required: false },
     contentType: { type: String, required: true, enum: ["movie", "tvshow"] },
     // polymorphic ref: refer to Movies or TVShows depending on contentType
     contentId: {
@@ -38,18 +76,81 @@ const MyListItemSchema = new Schema<IMyListItem>(
       posterUrl: String,
       genres: [String],
       shortDescription: String,
+      releaseDate: Date,
+      durationMinutes: Number,
     },
+    searchTokens: { type: [String], default: undefined },
     contentVisibility: {
       type: String,
       enum: ["available", "unavailable", "removed"],
       default: "available",
     },
+    rank: { type: String },
+    deletedAt: { type: Date, default: null },
+    purgeAt: { type: Date },
+    seq: { type: Number },
+    addedSeq: { type: Number },
   },
   { timestamps: true },
 );
 
-// prevent duplicates: a user cannot save same contentRef twice in same list
-MyListItemSchema.index({ userId: 1, contentId: 1 }, { unique: true });
-MyListItemSchema.index({ userId: 1, addedAt: -1, _id: -1 });
+// prevent duplicates: a user cannot save same contentRef twice in same list.
+// episodeId is part of the key so several episodes of a show can be saved
+// next to the show itself (missing listId/episodeId index as null).
+// deletedAt is too, so trashed copies do not block adding the item again.
+MyListItemSchema.index(
+  { userId: 1, listId: 1, contentId: 1, episodeId: 1, deletedAt: 1 },
+  { unique: true },
+);
+// GET /trash, newest removal first
+MyListItemSchema.index({ userId: 1, listId: 1, deletedAt: -1, _id: -1 });
+// purge trashed items once purgeAt has passed
+MyListItemSchema.index({ purgeAt: 1 }, { expireAfterSeconds: 0 });
+// GET /changes, oldest change first
+MyListItemSchema.index({ userId: 1, listId: 1, seq: 1, _id: 1 });
+MyListItemSchema.index({ userId: 1, listId: 1, addedAt: -1, _id: -1 });
+// custom ordering (sort=custom)
+MyListItemSchema.index({ userId: 1, listId: 1, rank: 1, _id: 1 });
+// sort=title / releaseDate / duration (sort=addedAt_asc walks the addedAt index backwards)
+MyListItemSchema.index(
+  { userId: 1, listId: 1, "snapshot.title": 1, _id: 1 },
+  { collation: TITLE_COLLATION },
+);
+MyListItemSchema.index({
+  userId: 1,
+  listId: 1,
+  "snapshot.releaseDate": -1,
+  _id: -1,
+});
+MyListItemSchema.index({
+  userId: 1,
+  listId: 1,
+  "snapshot.durationMinutes": 1,
+  _id: 1,
+});
+// ?q= title search and ?genre= filter
+MyListItemSchema.index({ userId: 1, listId: 1, searchTokens: 1 });
+MyListItemSchema.index({ userId: 1, listId: 1, "snapshot.genres": 1 });
+// catalog sync (services/catalog.sync.ts): items of a changed movie or show,
+// walked in _id order by refreshSnapshots, and items of a changed episode
+MyListItemSchema.index({ contentId: 1, _id: 1 });
+MyListItemSchema.index({ episodeId: 1 });
+
+// contentType values are not model names, so refPath alone cannot resolve them
+const CONTENT_MODELS = { movie: "Movie", tvshow: "TVShow" };
+
+// live catalog docs for ?expand=content, next to contentId/episodeId
+MyListItemSchema.virtual("content", {
+  ref: (doc: any) => CONTENT_MODELS[doc.contentType as "movie" | "tvshow"],
+  localField: "contentId",
+  foreignField: "_id",
+  justOne: true,
+});
+MyListItemSchema.virtual("episode", {
+  ref: "Episode",
+  localField: "episodeId",
+  foreignField: "_id",
+  justOne: true,
+});
 
 export default model<IMyListItem>("MyListItem", MyListItemSchema);
@@ -0,0 +1,26 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// A read-only public link to one list. Anyone holding the token can read the
+// list's snapshots; revoking deletes the link.
+export interface IShareLink extends Document {
+  token: string;
+  userId: Types.ObjectId;
+  // null for the default list
+  listId?: Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ShareLinkSchema = new Schema<IShareLink>(
+  {
+    token: { type: String, required: true, unique: true },
+    userId: { type: Schema.Types.ObjectId, required: true },
+    listId: { type: Schema.Types.ObjectId, default: null },
+  },
+  { timestamps: true },
+);
+
+// shares of one list
+ShareLinkSchema.index({ userId: 1, listId: 1, createdAt: -1 });
+
+export default model<IShareLink>("ShareLink", ShareLinkSchema);
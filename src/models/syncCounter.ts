@@ -0,0 +1,23 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// Per-user change sequence for delta sync (GET /api/mylist/changes).
+// Every write to a user's list items stamps them with the next seq.
+export interface ISyncCounter extends Document {
+  userId: Types.ObjectId;
+  // last seq handed out; only ever grows
+  seq: number;
+  // seqs handed out whose writes have not settled yet, with the (database)
+  // time they were handed out; see services/sync.service.ts
+  pending: { seq: number; at: Date }[];
+}
+
+const SyncCounterSchema = new Schema<ISyncCounter>({
+  userId: { type: Schema.Types.ObjectId, required: true, unique: true },
+  seq: { type: Number, default: 0 },
+  pending: {
+    type: [{ _id: false, seq: Number, at: Date }],
+    default: [],
+  },
+});
+
+export default model<ISyncCounter>("SyncCounter", SyncCounterSchema);
@@ -1,4 +1,5 @@
 import { Schema, model } from "mongoose";
+import { catalogSyncPlugin } from "../services/catalog.sync";
 
 export interface ITVShow {
   title: string;
@@ -6,6 +7,8 @@ export interface ITVShow {
   description?: string;
   seasons?: number;
   posterUrl?: string;
+  // false while the title is temporarily unavailable on the platform
+  isAvailable?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -20,8 +23,15 @@ const TVShowSchema = new Schema(
       type: Number,
       default: 1,
     },
+    isAvailable: { type: Boolean, default: true },
   },
   { timestamps: true },
 );
 
+// recommendation candidates by genre
+TVShowSchema.index({ genres: 1 });
+
+// propagate deletes/availability changes to list items
+TVShowSchema.plugin(catalogSyncPlugin, { type: "tvshow" });
+
 export default model<ITVShow>("TVShow", TVShowSchema);
@@ -7,20 +7,14 @@ export interface IUser extends Document {
   preferences?: {
     favoriteGenres?: string[];
     dislikedGenres?: string[];
+    // remove movies from every list once they are fully watched
+    autoRemoveWatched?: boolean;
   };
   createdAt: Date;
   updatedAt: Date;
 }
 
-// create separate modle for watch history
-/*
- watchHistory: Array<{
-    contentId: string;
-    watchedOn: Date;
-    rating?: number;
-14  }>
-
-*/
+// watch history lives in its own collection, see models/watchProgress.ts
 
 const UserSchema = new Schema<IUser>(
   {
@@ -30,6 +24,7 @@ const UserSchema = new Schema<IUser>(
     preferences: {
       favoriteGenres: { type: [String], default: [] },
       dislikedGenres: { type: [String], default: [] },
+      autoRemoveWatched: { type: Boolean, default: false },
     },
   },
   { timestamps: true },
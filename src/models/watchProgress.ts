@@ -0,0 +1,39 @@
+import { Schema, model, Document, Types } from "mongoose";
+
+// How far a user got into a movie or an episode of a show.
+export interface IWatchProgress extends Document {
+  userId: Types.ObjectId;
+  contentId: Types.ObjectId;
+  contentType: "movie" | "tvshow";
+  // set for shows: progress is tracked per episode
+  episodeId?: Types.ObjectId;
+  positionSeconds: number;
+  // runtime of the movie/episode when reported, for percent complete
+  durationSeconds?: number;
+  completed: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WatchProgressSchema = new Schema<IWatchProgress>(
+  {
+    userId: { type: Schema.Types.ObjectId, required: true },
+    contentId: { type: Schema.Types.ObjectId, required: true },
+    contentType: { type: String, required: true, enum: ["movie", "tvshow"] },
+    episodeId: { type: Schema.Types.ObjectId, required: false },
+    positionSeconds: { type: Number, required: true, min: 0 },
+    durationSeconds: { type: Number },
+    completed: { type: Boolean, default: false },
+  },
+  { timestamps: true },
+);
+
+// one row per user and movie/episode
+WatchProgressSchema.index(
+  { userId: 1, contentId: 1, episodeId: 1 },
+  { unique: true },
+);
+// latest watched episode of a show
+WatchProgressSchema.index({ userId: 1, contentId: 1, updatedAt: -1 });
+
+export default model<IWatchProgress>("WatchProgress", WatchProgressSchema);
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { live, ready } from "../controllers/health.controller";
+
+const router = Router();
+
+router.get("/", live); // same as /live, kept for existing checks
+router.get("/live", live); // process is up
+router.get("/ready", ready); // Mongo reachable and not shutting down
+
+export default router;
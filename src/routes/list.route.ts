@@ -0,0 +1,30 @@
+import { Router } from "express";
+import {
+  getLists,
+  createList,
+  renameList,
+  deleteList,
+} from "../controllers/list.controller";
+import {
+  createShare,
+  getShares,
+  revokeShare,
+} from "../controllers/share.controller";
+import myListRoutes from "./myList.route";
+
+const router = Router();
+
+router.get("/", getLists); // all lists of the user, default list first
+router.post("/", createList); // create named list
+router.patch("/:listId", renameList); // rename list
+router.delete("/:listId", deleteList); // delete list and its items
+
+// read-only public links, served by /api/shared/:token
+router.post("/:listId/shares", createShare); // new share link
+router.get("/:listId/shares", getShares); // active share links
+router.delete("/:listId/shares/:shareId", revokeShare); // revoke a share link
+
+// item routes scoped to one list; "default" addresses the default list
+router.use("/:listId/items", myListRoutes);
+
+export default router;
@@ -1,14 +1,40 @@
-import { Router } from "express";
+import express, { Router } from "express";
 import {
   addItem,
   removeItem,
   listItems,
+  moveItem,
+  batchItems,
+  nextEpisode,
+  exportItems,
+  importItems,
+  restoreItem,
+  listTrash,
+  listActivity,
+  listChanges,
 } from "../controllers/myList.controller";
+import { idempotent } from "../middleware/idempotency";
 
-const router = Router();
+// mergeParams: also mounted under /api/lists/:listId/items
+const router = Router({ mergeParams: true });
 
-router.post("/", addItem); // add item
-router.get("/", listItems); // list items, supports ?limit=&cursor=&contentType=
-router.delete("/:contentId", removeItem); // remove item
+// idempotent: retries with the same Idempotency-Key replay the first response
+router.post("/", idempotent, addItem); // add item
+router.post("/batch", idempotent, batchItems); // add/remove up to MYLIST_BATCH_MAX items at once
+router.get("/export", exportItems); // whole list, ?format=json|csv
+router.post(
+  "/import",
+  express.text({ type: "text/csv", limit: "1mb" }),
+  idempotent, // after the CSV parser: the body is part of the fingerprint
+  importItems,
+); // JSON array or CSV body, ?mode=merge|replace
+router.get("/trash", listTrash); // removed items, ?limit=&cursor=
+router.get("/activity", listActivity); // activity log, ?limit=&cursor=
+router.get("/changes", listChanges); // delta sync, ?since=<token>&limit=
+router.get("/", listItems); // list items, ?limit=&cursor=&sort=&groupBy=&expand= plus filters (see README)
+router.delete("/:contentId", idempotent, removeItem); // move item to the trash, ?episodeId= for a saved episode
+router.post("/:contentId/restore", restoreItem); // undo a removal, ?episodeId= for a saved episode
+router.patch("/:contentId/position", moveItem); // move item before/after another
+router.get("/:contentId/next", nextEpisode); // next episode of a saved show, ?episodeId= for a saved episode
 
 export default router;
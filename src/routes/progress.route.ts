@@ -0,0 +1,14 @@
+import { Router } from "express";
+import {
+  reportProgress,
+  getProgress,
+  updateSettings,
+} from "../controllers/progress.controller";
+
+const router = Router();
+
+router.patch("/settings", updateSettings); // { autoRemoveWatched }
+router.put("/:contentId", reportProgress); // report playback position
+router.get("/:contentId", getProgress); // progress, ?episodeId= for an episode
+
+export default router;
@@ -0,0 +1,8 @@
+import { Router } from "express";
+import { getRecommendations } from "../controllers/recommendation.controller";
+
+const router = Router();
+
+router.get("/", getRecommendations); // ?limit=&cursor=
+
+export default router;
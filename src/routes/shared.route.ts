@@ -0,0 +1,9 @@
+import { Router } from "express";
+import { getSharedList } from "../controllers/share.controller";
+
+// public, mounted without requireUser
+const router = Router();
+
+router.get("/:token", getSharedList); // ?limit=&cursor=
+
+export default router;
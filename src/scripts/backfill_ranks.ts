@@ -0,0 +1,39 @@
+// src/scripts/backfill_ranks.ts
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+dotenv.config();
+
+import { backfillRanks } from "../services/myList.service";
+import { cache } from "../services/myList.cache";
+import logger from "../utils/logger";
+
+const MONGO_URI =
+  process.env.MONGO_URI || "mongodb://127.0.0.1:27017/ott_stage";
+
+/**
+ * Gives custom order ranks to list items saved before custom ordering
+ * existed, so reads never have to write them. Safe to run again: lists
+ * without unranked items are skipped.
+ */
+export async function backfillAllRanks() {
+  await mongoose.connect(MONGO_URI);
+  console.log("Connected to MongoDB");
+
+  const lists = await backfillRanks();
+  console.log(`✔ Ranked the unranked items of ${lists} lists`);
+
+  await mongoose.disconnect();
+  await cache.close();
+  console.log("Disconnected.");
+}
+
+// CLI support
+if (require.main === module) {
+  backfillAllRanks().catch((err) => {
+    logger.error(err);
+    process.exit(1);
+  });
+}
+
+// run using below command:
+// ts-node src/scripts/backfill_ranks.ts
@@ -0,0 +1,157 @@
+// src/scripts/refresh_snapshots.ts
+import mongoose, { Types } from "mongoose";
+import dotenv from "dotenv";
+dotenv.config();
+
+// import models
+import MovieModel from "../models/movie";
+import TVShowModel from "../models/tvShow";
+import MyListItemModel from "../models/myListItem";
+import JobCheckpointModel from "../models/jobCheckpoint";
+import {
+  bumpLists,
+  snapshotDiffers,
+  snapshotFrom,
+  uniqueLists,
+} from "../services/catalog.sync";
+import { cache } from "../services/myList.cache";
+import { withSeqs } from "../services/sync.service";
+import logger from "../utils/logger";
+import { searchTokens } from "../utils/search";
+
+const MONGO_URI =
+  process.env.MONGO_URI || "mongodb://127.0.0.1:27017/ott_stage";
+const JOB_NAME = "snapshot-refresh";
+const BATCH_SIZE = Number(process.env.SNAPSHOT_BATCH_SIZE ?? 500);
+
+/** Load the catalog docs referenced by a batch of list items, keyed by id */
+async function loadContent(items: any[]) {
+  const idsOf = (type: string) =>
+    items.filter((i) => i.contentType === type).map((i) => i.contentId);
+  const fields = {
+    title: 1,
+    posterUrl: 1,
+    genres: 1,
+    description: 1,
+    releaseDate: 1,
+    durationMinutes: 1,
+  };
+  const [movies, shows] = await Promise.all([
+    MovieModel.find({ _id: { $in: idsOf("movie") } }, fields).lean(),
+    TVShowModel.find({ _id: { $in: idsOf("tvshow") } }, fields).lean(),
+  ]);
+  const byId = new Map<string, any>();
+  for (const doc of [...movies, ...shows]) byId.set(doc._id.toString(), doc);
+  return byId;
+}
+
+/**
+ * Rewrites stale snapshots of all list items, BATCH_SIZE items at a time,
+ * in _id order. Progress is stored in a JobCheckpoint after every batch, so
+ * an interrupted run continues where it stopped. restart=true starts over.
+ */
+export async function refreshAllSnapshots(restart: boolean = false) {
+  await mongoose.connect(MONGO_URI);
+  console.log("Connected to MongoDB");
+
+  let checkpoint = await JobCheckpointModel.findOne({ name: JOB_NAME });
+  if (!checkpoint) {
+    checkpoint = await JobCheckpointModel.create({ name: JOB_NAME });
+  } else if (restart || checkpoint.completedAt) {
+    checkpoint.set({
+      lastId: null,
+      processed: 0,
+      updated: 0,
+      completedAt: null,
+    });
+    await checkpoint.save();
+  } else {
+    console.log(
+      `Resuming after ${checkpoint.lastId} (${checkpoint.processed} done)`,
+    );
+  }
+
+  for (;;) {
+    const filter: any = {};
+    if (checkpoint.lastId) filter._id = { $gt: checkpoint.lastId };
+    const items = await MyListItemModel.find(filter, {
+      userId: 1,
+      listId: 1,
+      contentId: 1,
+      contentType: 1,
+      snapshot: 1,
+      searchTokens: 1,
+    })
+      .sort({ _id: 1 })
+      .limit(BATCH_SIZE)
+      .lean();
+    if (!items.length) break;
+
+    const contentById = await loadContent(items);
+    const updates: any[] = [];
+    for (const item of items) {
+      const content = contentById.get(item.contentId.toString());
+      // deleted content is handled by contentVisibility, keep the last snapshot
+      const snapshot = content ? snapshotFrom(content) : item.snapshot;
+      // items saved before title search existed also need searchTokens
+      if (snapshotDiffers(item.snapshot, snapshot) || !item.searchTokens) {
+        updates.push({ item, snapshot });
+      }
+    }
+
+    if (updates.length) {
+      // delta sync clients pick the new snapshots up as updates
+      await withSeqs(
+        updates.map((u) => u.item.userId),
+        (seqs) =>
+          MyListItemModel.bulkWrite(
+            updates.map(({ item, snapshot }) => ({
+              updateOne: {
+                filter: { _id: item._id },
+                update: {
+                  $set: {
+                    snapshot,
+                    searchTokens: searchTokens(snapshot.title),
+                    seq: seqs.get(item.userId.toString()),
+                  },
+                },
+              },
+            })),
+            { ordered: false },
+          ),
+      );
+      await bumpLists(uniqueLists(updates.map((u) => u.item)));
+    }
+
+    checkpoint.lastId = items[items.length - 1]._id as Types.ObjectId;
+    checkpoint.processed += items.length;
+    checkpoint.updated += updates.length;
+    await checkpoint.save();
+    console.log(
+      `Batch done: ${updates.length}/${items.length} updated (total ${checkpoint.processed})`,
+    );
+  }
+
+  checkpoint.completedAt = new Date();
+  await checkpoint.save();
+
+  console.log("✔ Snapshot refresh complete");
+  console.log("Processed:", checkpoint.processed);
+  console.log("Updated:", checkpoint.updated);
+
+  await mongoose.disconnect();
+  await cache.close();
+  console.log("Disconnected.");
+}
+
+// CLI support
+if (require.main === module) {
+  const restart = process.argv.includes("--restart");
+  refreshAllSnapshots(restart).catch((err) => {
+    logger.error(err);
+    process.exit(1);
+  });
+}
+
+// run using below command (add --restart to ignore the saved checkpoint):
+// ts-node src/scripts/refresh_snapshots.ts
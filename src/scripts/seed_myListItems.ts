@@ -11,6 +11,8 @@ import TVShowModel from "../models/tvShow";
 import EpisodeModel from "../models/episode";
 import MyListItemModel from "../models/myListItem";
 import logger from "../utils/logger";
+import { snapshotFrom } from "../services/catalog.sync";
+import { searchTokens } from "../utils/search";
 
 const MONGO_URI =
   process.env.MONGO_URI || "mongodb://127.0.0.1:27017/ott_stage";
@@ -51,7 +53,15 @@ export async function seedMyListItemsForOneUser(
   // 2) Load required content lists
   const movies = await MovieModel.find(
     {},
-    { _id: 1, title: 1, genres: 1, posterUrl: 1, description: 1 },
+    {
+      _id: 1,
+      title: 1,
+      genres: 1,
+      posterUrl: 1,
+      description: 1,
+      releaseDate: 1,
+      durationMinutes: 1,
+    },
   )
     .lean()
     .exec();
@@ -105,12 +115,8 @@ export async function seedMyListItemsForOneUser(
           contentId: movie._id,
           episodeId: undefined,
           addedAt: faker.date.recent({ days: 90 }),
-          snapshot: {
-            title: movie.title,
-            posterUrl: movie.posterUrl ?? "",
-            genres: movie.genres ?? [],
-            shortDescription: movie.description ?? "",
-          },
+          snapshot: snapshotFrom(movie),
+          searchTokens: searchTokens(movie.title),
           contentVisibility: "available",
         });
       } else {
@@ -128,12 +134,8 @@ export async function seedMyListItemsForOneUser(
           contentId: show._id,
           episodeId: ep ? ep._id : undefined,
           addedAt: faker.date.recent({ days: 90 }),
-          snapshot: {
-            title: show.title,
-            posterUrl: show.posterUrl ?? "",
-            genres: show.genres ?? [],
-            shortDescription: show.description ?? "",
-          },
+          snapshot: snapshotFrom(show),
+          searchTokens: searchTokens(show.title),
           contentVisibility: "available",
         });
       }
@@ -1,20 +1,71 @@
+import { Server, ServerResponse } from "http";
+import mongoose from "mongoose";
 import app from "./app";
 import connectDb from "./config/db";
+import { getAuthConfig } from "./config/auth";
+import { cache } from "./services/myList.cache";
+import { markShuttingDown } from "./services/health.service";
 import dotenv from "dotenv";
 dotenv.config({ override: true });
 
 const PORT = process.env.PORT || 4000;
+// in-flight requests get this long to finish before connections are cut
+const SHUTDOWN_TIMEOUT_MS = Number(process.env.SHUTDOWN_TIMEOUT_MS ?? 10000);
+
+// responses being written; on shutdown their keep-alive connections are
+// closed once they are sent, rather than after the keep-alive timeout
+const inFlight = new Set<ServerResponse>();
 
 async function start(): Promise<void> {
   try {
+    // fail fast on missing/invalid auth settings
+    getAuthConfig();
     await connectDb();
-    app.listen(PORT, () => {
+    const server = app.listen(PORT, () => {
       console.log(`Server listening on port ${PORT}`);
     });
+    server.on("request", (req, res: ServerResponse) => {
+      inFlight.add(res);
+      res.on("close", () => inFlight.delete(res));
+    });
+    for (const signal of ["SIGTERM", "SIGINT"] as const) {
+      process.once(signal, () => shutdown(server, signal));
+    }
   } catch (error) {
     console.error("Failed to start server:", error);
     process.exit(1);
   }
 }
 
+/**
+ * Stops accepting connections, lets in-flight requests finish (up to
+ * SHUTDOWN_TIMEOUT_MS), then closes Mongo and the cache.
+ */
+async function shutdown(server: Server, signal: string) {
+  console.log(`${signal} received, shutting down`);
+  markShuttingDown();
+  const force = setTimeout(() => {
+    console.warn("Requests still running, closing their connections");
+    server.closeAllConnections();
+  }, SHUTDOWN_TIMEOUT_MS);
+  for (const res of inFlight) {
+    if (!res.headersSent) res.setHeader("Connection", "close");
+  }
+  // resolves once every connection is closed; idle keep-alive ones are
+  // closed right away
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  clearTimeout(force);
+
+  const results = await Promise.allSettled([
+    mongoose.disconnect(),
+    cache.close(),
+  ]);
+  const failed = results.filter((r) => r.status === "rejected");
+  for (const r of failed) {
+    console.error("Shutdown error:", (r as PromiseRejectedResult).reason);
+  }
+  console.log("Shutdown complete");
+  process.exit(failed.length ? 1 : 0);
+}
+
 start();
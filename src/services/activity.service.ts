@@ -0,0 +1,41 @@
+import ListEventModel, { ListAction } from "../models/listEvent";
+import logger from "../utils/logger";
+
+// Writes the list activity log. Imported by myList.service and
+// progress.service, so it must not import either of them.
+
+// actor of changes nobody asked for explicitly
+export const SYSTEM_ACTOR = "system";
+
+/** event for a change to one list item, done by its owner unless actor is given */
+export function itemEvent(
+  item: any,
+  action: ListAction,
+  source?: string,
+  actor: string = item.userId.toString(),
+) {
+  return {
+    userId: item.userId,
+    listId: item.listId ?? null,
+    action,
+    contentId: item.contentId,
+    contentType: item.contentType,
+    episodeId: item.episodeId ?? null,
+    title: item.snapshot?.title,
+    actor,
+    source,
+  };
+}
+
+/**
+ * Append events to the activity log. The list change already happened, so
+ * failures are logged, never thrown.
+ */
+export async function recordEvents(events: ReturnType<typeof itemEvent>[]) {
+  if (!events.length) return;
+  try {
+    await ListEventModel.insertMany(events, { ordered: false });
+  } catch (err) {
+    logger.error("activity log write failed", err);
+  }
+}
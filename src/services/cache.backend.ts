@@ -0,0 +1,383 @@
+// Cache backends. Everything cached (list pages, versions, share tokens,
+// idempotency records, rate limit windows) goes through the CacheBackend
+// interface, implemented by Redis and by an in-process LRU. CACHE_BACKEND
+// picks one; with Redis, a circuit breaker stops calling it after repeated
+// errors and serves from the fallback (CACHE_FALLBACK: an LRU, or nothing so
+// callers read Mongo) until a cooldown has passed.
+
+import Redis from "ioredis";
+import { LruCache } from "../utils/lru";
+import logger from "../utils/logger";
+
+export interface SetOptions {
+  ttlSeconds?: number;
+  // only store when the key is missing (Redis NX)
+  ifAbsent?: boolean;
+}
+
+export interface CacheBackend {
+  readonly name: string;
+  // whether every app instance sees the same entries; values that must agree
+  // across instances (ETag versions) are only used from a shared cache
+  readonly shared: boolean;
+  get(key: string): Promise<string | null>;
+  getMany(keys: string[]): Promise<(string | null)[]>;
+  /** resolves false when ifAbsent is set and the key already exists */
+  set(key: string, value: string, opts?: SetOptions): Promise<boolean>;
+  del(...keys: string[]): Promise<void>;
+  /** increments a counter, storing `seed` first when the key is missing */
+  incr(
+    key: string,
+    opts?: { seed?: number; ttlSeconds?: number },
+  ): Promise<number>;
+  /**
+   * Sliding window log: drops entries older than windowMs, adds `member` at
+   * `now` and returns how many entries the window holds and the oldest time.
+   */
+  windowAdd(
+    key: string,
+    now: number,
+    member: string,
+    windowMs: number,
+  ): Promise<{ count: number; oldest: number }>;
+  windowRemove(key: string, member: string): Promise<void>;
+  /** resolves when the backend answers (readiness checks) */
+  ping(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/** thrown by the circuit breaker while it is open and has no fallback */
+export class CacheUnavailableError extends Error {
+  constructor() {
+    super("cache unavailable");
+  }
+}
+
+export class RedisCache implements CacheBackend {
+  readonly name = "redis";
+  readonly shared = true;
+  readonly client: Redis;
+
+  constructor(url: string, commandTimeoutMs: number) {
+    this.client = new Redis(url, {
+      // fail commands fast while Redis is down so the breaker can trip,
+      // instead of queueing them through every reconnect attempt
+      maxRetriesPerRequest: 1,
+      commandTimeout: commandTimeoutMs,
+    });
+
+    this.client.on("connect", () => {
+      logger.info("✓ Connected to Redis");
+    });
+
+    this.client.on("error", (err) => {
+      logger.error("✗ Redis connection error:", err.message);
+    });
+
+    this.client.on("close", () => {
+      logger.warn("⚠ Redis connection closed");
+    });
+  }
+
+  get(key: string) {
+    return this.client.get(key);
+  }
+
+  getMany(keys: string[]) {
+    return this.client.mget(...keys);
+  }
+
+  async set(key: string, value: string, opts: SetOptions = {}) {
+    const ttl = opts.ttlSeconds;
+    let result: string | null;
+    if (ttl && opts.ifAbsent) {
+      result = await this.client.set(key, value, "EX", ttl, "NX");
+    } else if (ttl) {
+      result = await this.client.set(key, value, "EX", ttl);
+    } else if (opts.ifAbsent) {
+      result = await this.client.set(key, value, "NX");
+    } else {
+      result = await this.client.set(key, value);
+    }
+    return result === "OK";
+  }
+
+  async del(...keys: string[]) {
+    if (keys.length) await this.client.del(...keys);
+  }
+
+  async incr(key: string, opts: { seed?: number; ttlSeconds?: number } = {}) {
+    const multi = this.client.multi();
+    if (opts.seed !== undefined) multi.set(key, String(opts.seed), "NX");
+    multi.incr(key);
+    if (opts.ttlSeconds) multi.expire(key, opts.ttlSeconds);
+    const results = await exec(multi);
+    return results[opts.seed !== undefined ? 1 : 0] as number;
+  }
+
+  async windowAdd(key: string, now: number, member: string, windowMs: number) {
+    const results = await exec(
+      this.client
+        .multi()
+        .zremrangebyscore(key, 0, now - windowMs)
+        .zadd(key, now, member)
+        .zcard(key)
+        .zrange(key, 0, 0, "WITHSCORES")
+        .pexpire(key, windowMs),
+    );
+    const [, oldest] = results[3] as string[];
+    return { count: results[2] as number, oldest: Number(oldest ?? now) };
+  }
+
+  async windowRemove(key: string, member: string) {
+    await this.client.zrem(key, member);
+  }
+
+  async ping() {
+    await this.client.ping();
+  }
+
+  async close() {
+    if (this.client.status === "ready") await this.client.quit();
+    else this.client.disconnect();
+  }
+}
+
+/** runs a MULTI, failing on an aborted transaction or any failed command */
+async function exec(multi: ReturnType<Redis["multi"]>) {
+  const results = await multi.exec();
+  const failed = results?.find(([err]) => err);
+  if (!results || failed) throw failed?.[0] ?? new Error("multi aborted");
+  return results.map(([, value]) => value);
+}
+
+type WindowEntry = { at: number; member: string };
+
+/**
+ * Cache held in the process memory, bounded by entry count. Shared only when
+ * it is the configured backend (a single instance); as a fallback for Redis
+ * every instance has its own.
+ */
+export class MemoryCache implements CacheBackend {
+  readonly name = "memory";
+  private entries: LruCache<string | WindowEntry[]>;
+
+  constructor(
+    maxEntries: number,
+    readonly shared: boolean,
+  ) {
+    this.entries = new LruCache(maxEntries);
+  }
+
+  private string(key: string) {
+    const value = this.entries.get(key);
+    return typeof value === "string" ? value : null;
+  }
+
+  async get(key: string) {
+    return this.string(key);
+  }
+
+  async getMany(keys: string[]) {
+    return keys.map((key) => this.string(key));
+  }
+
+  async set(key: string, value: string, opts: SetOptions = {}) {
+    if (opts.ifAbsent && this.entries.get(key) !== undefined) return false;
+    this.entries.set(
+      key,
+      value,
+      opts.ttlSeconds ? opts.ttlSeconds * 1000 : undefined,
+    );
+    return true;
+  }
+
+  async del(...keys: string[]) {
+    for (const key of keys) this.entries.delete(key);
+  }
+
+  async incr(key: string, opts: { seed?: number; ttlSeconds?: number } = {}) {
+    const current = this.string(key) ?? String(opts.seed ?? 0);
+    const value = Number(current) + 1;
+    // like Redis, a counter without a new TTL keeps its current one
+    const ttlMs = opts.ttlSeconds
+      ? opts.ttlSeconds * 1000
+      : this.entries.ttl(key);
+    this.entries.set(key, String(value), ttlMs);
+    return value;
+  }
+
+  async windowAdd(key: string, now: number, member: string, windowMs: number) {
+    const stored = this.entries.get(key);
+    const window = (Array.isArray(stored) ? stored : []).filter(
+      (entry) => entry.at > now - windowMs,
+    );
+    window.push({ at: now, member });
+    this.entries.set(key, window, windowMs);
+    return {
+      count: window.length,
+      oldest: Math.min(...window.map((entry) => entry.at)),
+    };
+  }
+
+  async windowRemove(key: string, member: string) {
+    const stored = this.entries.get(key);
+    if (!Array.isArray(stored)) return;
+    const index = stored.findIndex((entry) => entry.member === member);
+    if (index >= 0) stored.splice(index, 1);
+  }
+
+  async ping() {}
+
+  async close() {
+    this.entries.clear();
+  }
+}
+
+export interface BreakerOptions {
+  // consecutive failures that open the circuit
+  threshold: number;
+  // how long an open circuit skips the primary before trying it again
+  cooldownMs: number;
+  /**
+   * Runs against the primary before its first call after a failure. Writes
+   * (version bumps, deletes) made while it failed were lost; this is where
+   * the caches they should have invalidated are dropped.
+   */
+  onRecover?: (primary: CacheBackend) => Promise<unknown>;
+}
+
+/**
+ * Calls the primary backend until `threshold` calls in a row have failed,
+ * then serves from the fallback, or throws CacheUnavailableError without a
+ * fallback, for `cooldownMs`. The first call after the cooldown tries the
+ * primary again; one more failure reopens the circuit.
+ */
+export class CircuitBreakerCache implements CacheBackend {
+  private failures = 0;
+  private openUntil = 0;
+  // a call failed since the primary last answered
+  private failedSinceRecovery = false;
+
+  constructor(
+    private primary: CacheBackend,
+    private fallback: CacheBackend | null,
+    private opts: BreakerOptions,
+  ) {}
+
+  get name() {
+    return this.isOpen() && this.fallback
+      ? this.fallback.name
+      : this.primary.name;
+  }
+
+  get shared() {
+    return !this.isOpen() && this.primary.shared;
+  }
+
+  isOpen() {
+    return Date.now() < this.openUntil;
+  }
+
+  private async call<T>(op: (backend: CacheBackend) => Promise<T>) {
+    if (this.isOpen()) {
+      if (!this.fallback) throw new CacheUnavailableError();
+      return op(this.fallback);
+    }
+    try {
+      if (this.failedSinceRecovery) {
+        await this.opts.onRecover?.(this.primary);
+        this.failedSinceRecovery = false;
+      }
+      const result = await op(this.primary);
+      if (this.failures >= this.opts.threshold) {
+        logger.info(`cache circuit closed, using ${this.primary.name} again`);
+      }
+      this.failures = 0;
+      return result;
+    } catch (err) {
+      this.failedSinceRecovery = true;
+      this.failures++;
+      if (this.failures >= this.opts.threshold) {
+        this.openUntil = Date.now() + this.opts.cooldownMs;
+        logger.warn(
+          `cache circuit open for ${this.opts.cooldownMs / 1000}s after ${this.failures} failures`,
+        );
+      }
+      if (!this.fallback) throw err;
+      logger.error(`${this.primary.name} call failed, using fallback`, err);
+      return op(this.fallback);
+    }
+  }
+
+  get(key: string) {
+    return this.call((backend) => backend.get(key));
+  }
+
+  getMany(keys: string[]) {
+    return this.call((backend) => backend.getMany(keys));
+  }
+
+  set(key: string, value: string, opts?: SetOptions) {
+    return this.call((backend) => backend.set(key, value, opts));
+  }
+
+  del(...keys: string[]) {
+    return this.call((backend) => backend.del(...keys));
+  }
+
+  incr(key: string, opts?: { seed?: number; ttlSeconds?: number }) {
+    return this.call((backend) => backend.incr(key, opts));
+  }
+
+  windowAdd(key: string, now: number, member: string, windowMs: number) {
+    return this.call((backend) =>
+      backend.windowAdd(key, now, member, windowMs),
+    );
+  }
+
+  windowRemove(key: string, member: string) {
+    return this.call((backend) => backend.windowRemove(key, member));
+  }
+
+  /** state of the primary itself, whatever the circuit */
+  ping() {
+    return this.primary.ping();
+  }
+
+  async close() {
+    await Promise.all([this.primary.close(), this.fallback?.close()]);
+  }
+}
+
+/**
+ * The configured backend: CACHE_BACKEND=memory for one in-process LRU (a
+ * single instance, or running without Redis), otherwise Redis behind a
+ * circuit breaker.
+ */
+export function createCache(onRecover?: BreakerOptions["onRecover"]) {
+  const backend = process.env.CACHE_BACKEND ?? "redis";
+  const maxEntries = Number(process.env.CACHE_MEMORY_MAX_ENTRIES ?? 10000);
+  if (backend === "memory") return new MemoryCache(maxEntries, true);
+  if (backend !== "redis") {
+    throw new Error(`CACHE_BACKEND must be "redis" or "memory"`);
+  }
+
+  const fallback = process.env.CACHE_FALLBACK ?? "none";
+  if (fallback !== "memory" && fallback !== "none") {
+    throw new Error(`CACHE_FALLBACK must be "memory" or "none"`);
+  }
+  return new CircuitBreakerCache(
+    new RedisCache(
+      process.env.REDIS_URL || "redis://127.0.0.1:6379",
+      Number(process.env.REDIS_COMMAND_TIMEOUT_MS ?? 500),
+    ),
+    fallback === "memory" ? new MemoryCache(maxEntries, false) : null,
+    {
+      threshold: Number(process.env.CACHE_BREAKER_THRESHOLD ?? 5),
+      cooldownMs:
+        Number(process.env.CACHE_BREAKER_COOLDOWN_SECONDS ?? 30) * 1000,
+      onRecover,
+    },
+  );
+}
@@ -0,0 +1,410 @@
+import { Schema, Types } from "mongoose";
+import MyListItemModel, { ContentVisibility } from "../models/myListItem";
+import { bumpCatalogVersion, bumpUserVersion } from "./myList.cache";
+import { withSeqs } from "./sync.service";
+import logger from "../utils/logger";
+import { searchTokens } from "../utils/search";
+
+// Keeps list items in sync with the catalog (Movie, TVShow, Episode).
+// Registered as a schema plugin by the catalog models, so it must not import
+// them (or anything that does) to avoid a require cycle.
+
+export type CatalogType = "movie" | "tvshow" | "episode";
+
+// how many affected lists get their cache version bumped concurrently
+const BUMP_CONCURRENCY = 50;
+
+// items rewritten per batch when refreshing snapshots
+const SNAPSHOT_BATCH_SIZE = Number(process.env.SNAPSHOT_BATCH_SIZE ?? 500);
+
+// catalog fields copied into MyListItem.snapshot
+const SNAPSHOT_FIELDS = [
+  "title",
+  "posterUrl",
+  "genres",
+  "description",
+  "releaseDate",
+  "durationMinutes",
+];
+
+type PendingUpdate = {
+  ids: Types.ObjectId[];
+  availability: boolean;
+  snapshot: boolean;
+};
+
+// state captured in pre query hooks, consumed by the matching post hook
+const pendingIds = new WeakMap<object, Types.ObjectId[]>();
+const pendingUpdates = new WeakMap<object, PendingUpdate>();
+
+/** mongo filter selecting the list items that reference the given catalog docs */
+function itemFilter(type: CatalogType, ids: Types.ObjectId[]) {
+  return type === "episode"
+    ? { episodeId: { $in: ids } }
+    : { contentId: { $in: ids } };
+}
+
+type ListRef = { userId: Types.ObjectId; listId?: Types.ObjectId | null };
+
+/** distinct lists (userId, listId) holding items that match the filter */
+export async function affectedLists(filter: any): Promise<ListRef[]> {
+  const groups = await MyListItemModel.aggregate([
+    { $match: filter },
+    { $group: { _id: { userId: "$userId", listId: "$listId" } } },
+  ]).exec();
+  return groups.map((g) => g._id);
+}
+
+/** bump the cache version of every given list, a bounded number at a time */
+export async function bumpLists(lists: ListRef[]) {
+  for (let i = 0; i < lists.length; i += BUMP_CONCURRENCY) {
+    await Promise.all(
+      lists
+        .slice(i, i + BUMP_CONCURRENCY)
+        .map((l) => bumpUserVersion(l.userId.toString(), l.listId?.toString())),
+    );
+  }
+}
+
+/**
+ * ids of the unavailable catalog docs of one model (Episode, TVShow) that
+ * items matching the filter reference in the given field
+ */
+async function unavailableRefs(
+  filter: any,
+  field: "episodeId" | "contentId",
+  modelName: string,
+): Promise<Types.ObjectId[]> {
+  const ids = await MyListItemModel.distinct(field, {
+    ...filter,
+    [field]: { $ne: null },
+  });
+  if (!ids.length) return [];
+  // looked up by name: importing catalog models would be a require cycle
+  return MyListItemModel.db
+    .model(modelName)
+    .distinct("_id", { _id: { $in: ids }, isAvailable: false });
+}
+
+/**
+ * Set contentVisibility on every list item referencing the given catalog docs
+ * and invalidate the affected lists. "removed" is final: an item is never
+ * switched back to available once its content was deleted.
+ */
+export async function setContentVisibility(
+  type: CatalogType,
+  ids: Types.ObjectId[],
+  visibility: ContentVisibility,
+) {
+  if (!ids.length) return;
+  const filter: any = {
+    ...itemFilter(type, ids),
+    contentVisibility: {
+      $nin: visibility === "removed" ? ["removed"] : [visibility, "removed"],
+    },
+  };
+
+  try {
+    // an episode save is available only while both its show and its
+    // episode are, like resolveContent decides when it is saved
+    if (type === "tvshow" && visibility === "available") {
+      filter.episodeId = {
+        $nin: await unavailableRefs(filter, "episodeId", "Episode"),
+      };
+    }
+    if (type === "episode" && visibility === "available") {
+      filter.contentId = {
+        $nin: await unavailableRefs(filter, "contentId", "TVShow"),
+      };
+    }
+    // collect affected lists first, the update changes what the filter matches
+    const lists = await affectedLists(filter);
+    if (!lists.length) return;
+
+    // change seqs are per user: one update per affected user
+    const res = await withSeqs(
+      lists.map((l) => l.userId),
+      (seqs) =>
+        MyListItemModel.bulkWrite(
+          [...seqs].map(([userId, seq]) => ({
+            updateMany: {
+              filter: { ...filter, userId: new Types.ObjectId(userId) },
+              update: { $set: { contentVisibility: visibility, seq } },
+            },
+          })),
+          { ordered: false },
+        ),
+    );
+    await bumpLists(lists);
+    logger.info(
+      `contentVisibility=${visibility} for ${type} ${ids.join(",")}: ${res.modifiedCount} items`,
+    );
+  } catch (err) {
+    // the catalog write already succeeded; do not fail it
+    logger.error("contentVisibility propagation failed", err);
+  }
+}
+
+export type Snapshot = {
+  title: string;
+  posterUrl?: string;
+  genres?: string[];
+  shortDescription?: string;
+  releaseDate?: Date;
+  durationMinutes?: number;
+};
+
+/** list item snapshot of a Movie or TVShow document */
+export function snapshotFrom(content: any): Snapshot {
+  return {
+    title: content.title,
+    posterUrl: content.posterUrl,
+    genres: content.genres || [],
+    shortDescription: content.description || "",
+    releaseDate: content.releaseDate,
+    durationMinutes: content.durationMinutes,
+  };
+}
+
+const time = (d?: Date | string | null) => (d ? new Date(d).getTime() : null);
+
+/** true when a stored snapshot differs from the given one */
+export function snapshotDiffers(current: any, next: Snapshot) {
+  return (
+    time(current?.releaseDate) !== time(next.releaseDate) ||
+    (current?.durationMinutes ?? null) !== (next.durationMinutes ?? null) ||
+    current?.title !== next.title ||
+    (current?.posterUrl ?? undefined) !== (next.posterUrl ?? undefined) ||
+    (current?.shortDescription ?? "") !== (next.shortDescription ?? "") ||
+    JSON.stringify(current?.genres ?? []) !== JSON.stringify(next.genres ?? [])
+  );
+}
+
+/**
+ * Rewrite the snapshot of every list item saved for a title, in batches of
+ * SNAPSHOT_BATCH_SIZE, and invalidate the lists it touched.
+ */
+export async function refreshSnapshots(
+  contentId: Types.ObjectId,
+  snapshot: Snapshot,
+) {
+  let lastId: Types.ObjectId | null = null;
+  let updated = 0;
+  try {
+    for (;;) {
+      const filter: any = { contentId };
+      if (lastId) filter._id = { $gt: lastId };
+      const batch = await MyListItemModel.find(filter, {
+        userId: 1,
+        listId: 1,
+        snapshot: 1,
+        searchTokens: 1,
+      })
+        .sort({ _id: 1 })
+        .limit(SNAPSHOT_BATCH_SIZE)
+        .lean();
+      if (!batch.length) break;
+      lastId = batch[batch.length - 1]._id as Types.ObjectId;
+
+      const stale = batch.filter(
+        (doc) => snapshotDiffers(doc.snapshot, snapshot) || !doc.searchTokens,
+      );
+      if (stale.length) {
+        const res = await withSeqs(
+          stale.map((doc) => doc.userId),
+          (seqs) =>
+            MyListItemModel.bulkWrite(
+              stale.map((doc) => ({
+                updateOne: {
+                  filter: { _id: doc._id },
+                  update: {
+                    $set: {
+                      snapshot,
+                      searchTokens: searchTokens(snapshot.title),
+                      seq: seqs.get(doc.userId.toString()),
+                    },
+                  },
+                },
+              })),
+              { ordered: false },
+            ),
+        );
+        updated += res.modifiedCount;
+        await bumpLists(uniqueLists(stale));
+      }
+      if (batch.length < SNAPSHOT_BATCH_SIZE) break;
+    }
+    if (updated) {
+      logger.info(`snapshot refreshed for ${contentId}: ${updated} items`);
+    }
+  } catch (err) {
+    // the catalog write already succeeded; the backfill job can catch up
+    logger.error("snapshot refresh failed", err);
+  }
+  return updated;
+}
+
+/** distinct lists of the given items */
+export function uniqueLists(items: any[]): ListRef[] {
+  const lists = new Map<string, ListRef>();
+  for (const item of items) {
+    lists.set(`${item.userId}:${item.listId ?? ""}`, {
+      userId: item.userId,
+      listId: item.listId ?? null,
+    });
+  }
+  return [...lists.values()];
+}
+
+/** true when an update document touches any of the given fields */
+function touches(update: any, fields: string[]) {
+  if (!update || Array.isArray(update)) return false;
+  const touched = (doc: any) =>
+    doc && typeof doc === "object" && fields.some((f) => f in doc);
+  return (
+    touched(update) ||
+    Object.keys(update).some((op) => op.startsWith("$") && touched(update[op]))
+  );
+}
+
+/** ids of the catalog docs a query is about to write (one for *One ops) */
+async function matchedIds(query: any): Promise<Types.ObjectId[]> {
+  const filter = query.getFilter();
+  if (["updateMany", "deleteMany"].includes(query.op)) {
+    return query.model.distinct("_id", filter);
+  }
+  const doc = await query.model
+    .findOne(filter, { _id: 1 }, { sort: query.getOptions().sort })
+    .lean();
+  return doc ? [doc._id] : [];
+}
+
+/** re-read written catalog docs and propagate what changed to list items */
+async function propagateUpdates(
+  model: any,
+  type: CatalogType,
+  pending: PendingUpdate,
+) {
+  const docs = await model.find({ _id: { $in: pending.ids } }).lean();
+  if (pending.availability) {
+    const unavailable = docs.filter((d: any) => d.isAvailable === false);
+    const available = docs.filter((d: any) => d.isAvailable !== false);
+    await setContentVisibility(
+      type,
+      unavailable.map((d: any) => d._id),
+      "unavailable",
+    );
+    await setContentVisibility(
+      type,
+      available.map((d: any) => d._id),
+      "available",
+    );
+  }
+  if (pending.snapshot && type !== "episode") {
+    for (const doc of docs) {
+      await refreshSnapshots(doc._id, snapshotFrom(doc));
+    }
+  }
+}
+
+/**
+ * Schema plugin for catalog models: propagates deletes ("removed"),
+ * isAvailable changes ("available"/"unavailable") and snapshot field changes
+ * (title, poster, genres, description) to list items, and bumps the catalog
+ * version on every write.
+ */
+export function catalogSyncPlugin(
+  schema: Schema,
+  options: { type: CatalogType },
+) {
+  const { type } = options;
+
+  // --- updates ---
+  schema.pre("save", function () {
+    this.$locals.availabilityChanged =
+      !this.isNew && this.isModified("isAvailable");
+    this.$locals.snapshotChanged =
+      !this.isNew && SNAPSHOT_FIELDS.some((f) => this.isModified(f));
+  });
+  schema.post("save", async function (doc: any) {
+    const { availabilityChanged, snapshotChanged } = doc.$locals;
+    if (!availabilityChanged && !snapshotChanged) return;
+    // a document's constructor is its model
+    await propagateUpdates(doc.constructor, type, {
+      ids: [doc._id],
+      availability: Boolean(availabilityChanged),
+      snapshot: Boolean(snapshotChanged),
+    });
+  });
+
+  schema.pre(
+    ["updateOne", "updateMany", "findOneAndUpdate"],
+    async function () {
+      const update = this.getUpdate();
+      const availability = touches(update, ["isAvailable"]);
+      const snapshot = touches(update, SNAPSHOT_FIELDS);
+      if (!availability && !snapshot) return;
+      pendingUpdates.set(this, {
+        ids: await matchedIds(this),
+        availability,
+        snapshot,
+      });
+    },
+  );
+  schema.post(
+    ["updateOne", "updateMany", "findOneAndUpdate"],
+    async function () {
+      const pending = pendingUpdates.get(this);
+      if (!pending?.ids.length) return;
+      pendingUpdates.delete(this);
+      await propagateUpdates(this.model, type, pending);
+    },
+  );
+
+  // --- deletes ---
+  schema.pre(
+    ["deleteOne", "deleteMany", "findOneAndDelete"],
+    { query: true, document: false },
+    async function () {
+      pendingIds.set(this, await matchedIds(this));
+    },
+  );
+  schema.post(
+    ["deleteOne", "deleteMany", "findOneAndDelete"],
+    { query: true, document: false },
+    async function () {
+      const ids = pendingIds.get(this);
+      if (!ids?.length) return;
+      pendingIds.delete(this);
+      await setContentVisibility(type, ids, "removed");
+    },
+  );
+  schema.post(
+    "deleteOne",
+    { document: true, query: false },
+    async function (doc: any) {
+      await setContentVisibility(type, [doc._id], "removed");
+    },
+  );
+
+  // --- catalog version ---
+  // any write may change what list pages show (expand=content, next episodes)
+  const bumpVersion = async () => {
+    await bumpCatalogVersion();
+  };
+  schema.post("save", bumpVersion);
+  schema.post("insertMany", bumpVersion);
+  schema.post(
+    [
+      "updateOne",
+      "updateMany",
+      "findOneAndUpdate",
+      "deleteOne",
+      "deleteMany",
+      "findOneAndDelete",
+    ],
+    { query: true, document: false },
+    bumpVersion,
+  );
+  schema.post("deleteOne", { document: true, query: false }, bumpVersion);
+}
@@ -0,0 +1,64 @@
+// Liveness and readiness of the service. Ready means Mongo answers and the
+// process is not shutting down. The cache is checked and reported but not
+// required: without it reads fall back to Mongo (see cache.backend.ts), so
+// a Redis outage should not take every instance out of rotation.
+
+import mongoose from "mongoose";
+import { cache } from "./myList.cache";
+
+// how long a dependency has to answer a ping
+const CHECK_TIMEOUT_MS = Number(process.env.HEALTH_CHECK_TIMEOUT_MS ?? 1000);
+
+export type DependencyCheck =
+  | { status: "up"; latencyMs: number }
+  | { status: "down"; error: string };
+
+let shuttingDown = false;
+
+/** from now on readiness fails, so load balancers stop sending requests */
+export function markShuttingDown() {
+  shuttingDown = true;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number) {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`no answer in ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function check(ping: () => Promise<unknown>): Promise<DependencyCheck> {
+  const start = Date.now();
+  try {
+    await withTimeout(ping(), CHECK_TIMEOUT_MS);
+    return { status: "up", latencyMs: Date.now() - start };
+  } catch (err) {
+    return { status: "down", error: (err as Error).message };
+  }
+}
+
+async function pingMongo() {
+  const db = mongoose.connection.db;
+  // readyState 1: connected
+  if (mongoose.connection.readyState !== 1 || !db) {
+    throw new Error("not connected");
+  }
+  await db.admin().ping();
+}
+
+export async function readiness() {
+  const [mongo, cacheCheck] = await Promise.all([
+    check(pingMongo),
+    check(() => cache.ping()),
+  ]);
+  const ready = !shuttingDown && mongo.status === "up";
+  return {
+    ready,
+    status: ready ? "ready" : shuttingDown ? "shutting_down" : "not_ready",
+    checks: {
+      mongo,
+      cache: { ...cacheCheck, backend: cache.name, required: false },
+    },
+  };
+}
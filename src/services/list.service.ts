@@ -0,0 +1,100 @@
+import ListModel from "../models/list";
+import MyListItemModel from "../models/myListItem";
+import { Types } from "mongoose";
+import { HttpError } from "../utils/httpError";
+import logger from "../utils/logger";
+import { DEFAULT_LIST_ID } from "./myList.service";
+import { bumpUserVersion } from "./myList.cache";
+import { revokeListShares } from "./share.service";
+
+const DEFAULT_LIST_NAME = "My List";
+
+const INVALID_ID_CODES = {
+  userId: "INVALID_USER_ID",
+  listId: "INVALID_LIST_ID",
+} as const;
+
+function toOid(id: string, field: keyof typeof INVALID_ID_CODES) {
+  if (!Types.ObjectId.isValid(id)) {
+    throw new HttpError(400, `invalid ${field}`, INVALID_ID_CODES[field]);
+  }
+  return new Types.ObjectId(id);
+}
+
+function toView(list: any) {
+  return {
+    id: list._id.toString(),
+    name: list.name,
+    isDefault: false,
+    createdAt: list.createdAt,
+    updatedAt: list.updatedAt,
+  };
+}
+
+/** All lists of a user, the implicit default list first. */
+export async function getLists(userId: string) {
+  const userOid = toOid(userId, "userId");
+  const lists = await ListModel.find({ userId: userOid })
+    .sort({ createdAt: 1, _id: 1 })
+    .lean();
+  return [
+    { id: DEFAULT_LIST_ID, name: DEFAULT_LIST_NAME, isDefault: true },
+    ...lists.map(toView),
+  ];
+}
+
+export async function createList(userId: string, name: string) {
+  const userOid = toOid(userId, "userId");
+  try {
+    const list = await ListModel.create({ userId: userOid, name });
+    return toView(list);
+  } catch (err: any) {
+    if (err.code === 11000) {
+      throw new HttpError(409, "list name already in use", "LIST_NAME_TAKEN");
+    }
+    logger.error("createList failed", err);
+    throw new HttpError(500, "failed to create list", "INTERNAL_ERROR");
+  }
+}
+
+export async function renameList(userId: string, listId: string, name: string) {
+  if (listId === DEFAULT_LIST_ID) {
+    throw new HttpError(400, "default list cannot be renamed", "DEFAULT_LIST");
+  }
+  const userOid = toOid(userId, "userId");
+  const listOid = toOid(listId, "listId");
+  try {
+    const list = await ListModel.findOneAndUpdate(
+      { _id: listOid, userId: userOid },
+      { $set: { name } },
+      { new: true },
+    ).lean();
+    if (!list) throw new HttpError(404, "list not found", "LIST_NOT_FOUND");
+    return toView(list);
+  } catch (err: any) {
+    if (err instanceof HttpError) throw err;
+    if (err.code === 11000) {
+      throw new HttpError(409, "list name already in use", "LIST_NAME_TAKEN");
+    }
+    logger.error("renameList failed", err);
+    throw new HttpError(500, "failed to rename list", "INTERNAL_ERROR");
+  }
+}
+
+/** Deletes a named list together with all of its items and share links. */
+export async function deleteList(userId: string, listId: string) {
+  if (listId === DEFAULT_LIST_ID) {
+    throw new HttpError(400, "default list cannot be deleted", "DEFAULT_LIST");
+  }
+  const userOid = toOid(userId, "userId");
+  const listOid = toOid(listId, "listId");
+  const list = await ListModel.findOneAndDelete({
+    _id: listOid,
+    userId: userOid,
+  });
+  if (!list) return null;
+  await MyListItemModel.deleteMany({ userId: userOid, listId: listOid });
+  await revokeListShares(userOid, listOid);
+  await bumpUserVersion(userId, listId);
+  return list;
+}
@@ -1,34 +1,143 @@
-import Redis from "ioredis";
 import logger from "../utils/logger";
+import { Counter } from "../utils/metrics";
+import { createCache } from "./cache.backend";
 
-export const redis = new Redis(
-  process.env.REDIS_URL || "redis://127.0.0.1:6379",
+// prefixed to every version value; bumped when Redis answers again after
+// failing, since version bumps made while it was down were lost and cached
+// pages and ETags of the old versions would otherwise stay valid
+const CACHE_EPOCH_KEY = "cache:epoch";
+
+export const cache = createCache((primary) =>
+  primary.incr(CACHE_EPOCH_KEY, { seed: Date.now() }),
+);
+
+// a failed bump keeps serving pages of the old version (see CACHE_EPOCH_KEY)
+const versionBumpFailures = new Counter(
+  "mylist_version_bump_failures_total",
+  "Failed cache version bumps by version (list, progress, catalog)",
 );
 
-redis.on("connect", () => {
-  logger.info("✓ Connected to Redis");
-});
+// version keys of users who stop writing expire after this long
+const VERSION_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+// helper: cache scope of one list; the default list keeps the plain user scope
+export function listScope(userId: string, listId?: string | null) {
+  return listId ? `${userId}:list:${listId}` : userId;
+}
+
+// helper: version key for a user's list (default list when listId is absent)
+export function userVersionKey(userId: string, listId?: string | null) {
+  return `mylist:${listScope(userId, listId)}:version`;
+}
+
+// helper: version key covering all of a user's lists, bumped along with each
+// list version; used by caches derived from every list (recommendations)
+export function userListsVersionKey(userId: string) {
+  return `mylist:${userId}:lists:version`;
+}
+
+// helper: version of a user's watch progress; list pages carry watch state,
+// so their ETags depend on it
+export function progressVersionKey(userId: string) {
+  return `mylist:${userId}:progress:version`;
+}
+
+// catalog-wide version, bumped on every catalog write; covers the live
+// catalog data on list pages (expand=content, next episodes)
+export const CATALOG_VERSION_KEY = "catalog:version";
 
-redis.on("error", (err) => {
-  logger.error("✗ Redis connection error:", err.message);
-});
+// helper: cached owner of a share token; deleted when the share is revoked
+export function shareCacheKey(token: string) {
+  return `share:${token}`;
+}
 
-redis.on("close", () => {
-  logger.warn("⚠ Redis connection closed");
-});
+// helper: stored request/response of an Idempotency-Key (see
+// middleware/idempotency.ts); keys are chosen by clients, so scoped per user
+export function idempotencyKey(userId: string, key: string) {
+  return `idempotency:${userId}:${key}`;
+}
 
-// helper: version key for a user
-export function userVersionKey(userId: string) {
-  return `mylist:${userId}:version`;
+// helper: request times of a user's read or write window (middleware/rateLimit.ts)
+export function rateLimitKey(userId: string, kind: "read" | "write") {
+  return `ratelimit:${userId}:${kind}`;
 }
 
-// helper: page cache key for a user given version, limit and cursor
+// helper: page cache key for a list scope given version, limit and cursor;
+// variant identifies the page shape (e.g. "sortaddedAt", "sortaddedAt:groupshow")
 export function pageCacheKey(
-  userId: string,
+  scope: string,
   version: string,
   limit: number,
   cursor?: string,
+  variant: string = "sortaddedAt",
 ) {
   const cursorKey = cursor ? cursor : "start";
-  return `mylist:${userId}:v${version}:limit${limit}:cursor${cursorKey}`;
+  return `mylist:${scope}:v${version}:${variant}:limit${limit}:cursor${cursorKey}`;
+}
+
+/**
+ * Current value of a version key, or null when the cache is unavailable
+ * (callers then skip their cache). A missing key (expired, or lost with a
+ * Redis restart) starts from the current time rather than 0, so a version
+ * value is not handed out twice and an old ETag cannot match a newer state.
+ */
+export async function readVersion(key: string): Promise<string | null> {
+  try {
+    const [epoch, version] = await cache.getMany([CACHE_EPOCH_KEY, key]);
+    if (version) return `${epoch ?? 0}.${version}`;
+    await cache.set(key, Date.now().toString(), {
+      ttlSeconds: VERSION_TTL_SECONDS,
+      ifAbsent: true,
+    });
+    const seeded = await cache.get(key);
+    return seeded ? `${epoch ?? 0}.${seeded}` : null;
+  } catch (err) {
+    logger.error("cache version read failed", err);
+    return null;
+  }
+}
+
+/** increment a version key, seeding a missing one like readVersion does */
+async function bumpVersion(key: string) {
+  // optional TTL so version keys for inactive users expire
+  await cache.incr(key, { seed: Date.now(), ttlSeconds: VERSION_TTL_SECONDS });
+}
+
+/**
+ * Mutation helper: bumps the list version (and the user-wide lists version)
+ * so every cached page of the list is invalidated. Failures are logged,
+ * never thrown.
+ */
+export async function bumpUserVersion(userId: string, listId?: string | null) {
+  try {
+    for (const versionKey of [
+      userVersionKey(userId, listId),
+      userListsVersionKey(userId),
+    ]) {
+      await bumpVersion(versionKey);
+    }
+  } catch (err) {
+    logger.error("cache incr failed", err);
+    versionBumpFailures.inc({ version: "list" });
+  }
+}
+
+/** bumps the watch progress version of a user; failures are logged */
+export async function bumpProgressVersion(userId: string) {
+  try {
+    await bumpVersion(progressVersionKey(userId));
+  } catch (err) {
+    logger.error("cache incr failed", err);
+    versionBumpFailures.inc({ version: "progress" });
+  }
+}
+
+/** bumps the catalog version; failures are logged */
+export async function bumpCatalogVersion() {
+  try {
+    await bumpVersion(CATALOG_VERSION_KEY);
+  } catch (err) {
+    logger.error("cache incr failed", err);
+    versionBumpFailures.inc({ version: "catalog" });
+  }
 }
@@ -1,23 +1,171 @@
-import MyListItemModel from "../models/myListItem";
+import MyListItemModel, {
+  ContentVisibility,
+  TITLE_COLLATION,
+  TRASH_RETENTION_DAYS,
+  trashUpdate,
+} from "../models/myListItem";
+import ListModel from "../models/list";
 import UserModel from "../models/user";
 import MovieModel from "../models/movie";
 import TVShowModel from "../models/tvShow";
 import EpisodeModel from "../models/episode";
 import { Types } from "mongoose";
-import { redis, userVersionKey, pageCacheKey } from "./myList.cache";
+import {
+  cache,
+  userVersionKey,
+  progressVersionKey,
+  CATALOG_VERSION_KEY,
+  readVersion,
+  pageCacheKey,
+  listScope,
+  bumpUserVersion,
+} from "./myList.cache";
 import logger from "../utils/logger";
 import { HttpError } from "../utils/httpError";
+import { Counter, DURATION_BUCKETS, Histogram } from "../utils/metrics";
+import { LruCache } from "../utils/lru";
+import { rankBetween, spreadRanks } from "../utils/rank";
+import { snapshotFrom, Snapshot } from "./catalog.sync";
+import { searchTokens, titleQuery } from "../utils/search";
+import { createHash } from "crypto";
+import { annotateWithProgress } from "./progress.service";
+import { itemEvent, recordEvents } from "./activity.service";
+import ListEventModel from "../models/listEvent";
+import { nextSeq, releaseSeq, settledSeq, withSeq } from "./sync.service";
+import {
+  annotateNextEpisodes,
+  resolveNextEpisodes,
+} from "./nextEpisode.service";
 
 const PAGE_TTL_SECONDS = Number(process.env.MYLIST_CACHE_TTL_SECONDS ?? 60);
+// how long past its TTL the latest page of a list may still be served while
+// another instance rebuilds it for a new version; 0 disables
+const PAGE_STALE_SECONDS = Number(process.env.MYLIST_CACHE_STALE_SECONDS ?? 0);
+// how long a miss waits for the page another instance is rebuilding
+const PAGE_LOCK_WAIT_MS = Number(process.env.MYLIST_CACHE_LOCK_WAIT_MS ?? 250);
+// a rebuild lock left behind by a crashed instance expires after this long
+const PAGE_LOCK_TTL_SECONDS = 5;
 const MAX_LIMIT = Number(process.env.MYLIST_MAX_LIMIT ?? 100);
 const DEFAULT_LIMIT = Number(process.env.MYLIST_DEFAULT_LIMIT ?? 20);
+// ranks grow when items keep landing in the same gap; respread past this length
+const MAX_RANK_LENGTH = 32;
+
+// add/remove operations accepted by one POST /batch request
+export const MAX_BATCH_SIZE = Number(process.env.MYLIST_BATCH_MAX ?? 100);
+// rows accepted by one POST /import request
+export const MAX_IMPORT_ROWS = Number(process.env.MYLIST_IMPORT_MAX ?? 1000);
+// most items one list holds; adds past it fail with LIST_FULL
+export const MAX_LIST_SIZE = Number(process.env.MYLIST_MAX_ITEMS ?? 5000);
+
+const pageCacheRequests = new Counter(
+  "mylist_page_cache_requests_total",
+  "List page reads by page cache result (hit, miss, stale, bypass)",
+);
+const pageCacheErrors = new Counter(
+  "mylist_page_cache_errors_total",
+  "Failed page cache calls by operation",
+);
+const listQueryDuration = new Histogram(
+  "mylist_mongo_query_duration_seconds",
+  "Duration of the Mongo queries of list page reads",
+  DURATION_BUCKETS,
+);
+const listSize = new Histogram(
+  "mylist_list_size",
+  "Active items per list, sampled at most once an hour per list",
+  [0, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000],
+);
+// lists whose size was sampled within LIST_SIZE_SAMPLE_MS, so busy lists
+// count once instead of once per write or page read
+const LIST_SIZE_SAMPLE_MS = 60 * 60 * 1000;
+const sampledLists = new LruCache<true>(10000);
+
+// reserved list id for the implicit default list ("My List")
+export const DEFAULT_LIST_ID = "default";
+
+// sorts paginated by (sort key, _id); see KEYSET_SORTS
+type KeysetSort = "addedAt_asc" | "title" | "releaseDate" | "duration";
+
+export type ListSort = "addedAt" | "custom" | KeysetSort;
+export const LIST_SORTS: ListSort[] = [
+  "addedAt",
+  "custom",
+  "addedAt_asc",
+  "title",
+  "releaseDate",
+  "duration",
+];
+
+type SortSpec = {
+  field: string; // item path holding the sort key
+  dir: 1 | -1;
+  type: "date" | "number" | "string";
+  collation?: typeof TITLE_COLLATION;
+};
+
+// each has a backing index on MyListItem; items without the key (e.g. shows
+// have no releaseDate) sort like null: first when ascending, last when descending
+const KEYSET_SORTS: Record<KeysetSort, SortSpec> = {
+  addedAt_asc: { field: "addedAt", dir: 1, type: "date" },
+  title: {
+    field: "snapshot.title",
+    dir: 1,
+    type: "string",
+    collation: TITLE_COLLATION,
+  },
+  releaseDate: { field: "snapshot.releaseDate", dir: -1, type: "date" },
+  duration: { field: "snapshot.durationMinutes", dir: 1, type: "number" },
+};
 
 export interface ListOptions {
   limit?: number;
-  cursor?: string; // base64 encoded "addedAt|_id"
+  cursor?: string; // base64 encoded "addedAt|_id" (or "<sort>|<key>|_id")
   contentType?: "movie" | "tvshow";
+  genre?: string; // exact match on snapshot.genres
+  q?: string; // title search, every word matches a title word prefix
+  addedAfter?: Date;
+  addedBefore?: Date;
+  sort?: ListSort; // defaults to "addedAt" (newest first)
+  listId?: string; // named list id; default list when absent
+  groupBy?: ListGroupBy; // nest saved episodes under their show
+  visibility?: ContentVisibility[]; // defaults to available + unavailable
+  expand?: ListExpand[]; // "content": attach the live Movie/TVShow/Episode docs
+  watchState?: boolean; // attach the owner's progress/nextEpisode, default true
 }
 
+export type { ContentVisibility };
+export const CONTENT_VISIBILITIES: ContentVisibility[] = [
+  "available",
+  "unavailable",
+  "removed",
+];
+// removed titles are hidden unless asked for; unavailable ones are shown greyed out
+const DEFAULT_VISIBILITY: ContentVisibility[] = ["available", "unavailable"];
+
+export type ListGroupBy = "show";
+export const LIST_GROUP_BYS: ListGroupBy[] = ["show"];
+
+export type ListExpand = "content";
+export const LIST_EXPANDS: ListExpand[] = ["content"];
+
+// place an item directly before or after another item of the same list;
+// anchorEpisodeId picks a saved episode when the anchor is a show
+export type MoveTarget = {
+  before?: string;
+  after?: string;
+  anchorEpisodeId?: string;
+};
+
+// kind of change GET /changes reports for an item since the client's token
+export type ChangeOp = "add" | "update" | "remove";
+
+// mongo filter selecting the items of one list, trashed items excluded
+type ListFilter = {
+  userId: Types.ObjectId;
+  listId: Types.ObjectId | null;
+  deletedAt: null;
+};
+
 export type AddPayload = {
   contentId: string; // id of movie or tvshow
   contentType: "movie" | "tvshow";
@@ -29,126 +177,309 @@ export type AddPayload = {
     shortDescription?: string;
   };
   position?: number;
+  listId?: string; // named list id; default list when absent
+  source?: string; // client making the change, for the activity log
 };
 
-export async function addToList(
-  userId: string,
-  payload: AddPayload,
-  includeTotal: boolean = false,
-) {
-  // const doc = {
-  //   userId: new Types.ObjectId(userId),
-  //   contentId: new Types.ObjectId(payload.contentId),
-  //   contentType: payload.contentType,
-  //   snapshot: payload.snapshot
-  // };
-  // Basic validation
-  if (!Types.ObjectId.isValid(userId)) {
-    throw new HttpError(400, "invalid userId", "INVALID_USER_ID");
-  }
-  if (!Types.ObjectId.isValid(payload.contentId)) {
-    throw new HttpError(400, "invalid contentId", "INVALID_CONTENT_ID");
-  }
-  if (payload.episodeId && !Types.ObjectId.isValid(payload.episodeId)) {
-    throw new HttpError(400, "invalid episodeId", "INVALID_EPISODE_ID");
-  }
+export type BatchAddOperation = { op: "add" } & Omit<
+  AddPayload,
+  "listId" | "position" | "source"
+>;
+export type BatchRemoveOperation = {
+  op: "remove";
+  contentId: string;
+  episodeId?: string;
+};
+export type BatchOperation = BatchAddOperation | BatchRemoveOperation;
 
-  const userOid = new Types.ObjectId(userId);
-  const contentOid = new Types.ObjectId(payload.contentId);
-  const episodeOid = payload.episodeId
-    ? new Types.ObjectId(payload.episodeId)
-    : undefined;
+export type BatchStatus =
+  | "added"
+  | "already_present"
+  | "removed"
+  | "not_found"
+  | "invalid";
 
-  //verify user exists
-  const userExists = await UserModel.exists({ _id: userOid });
-  if (!userExists) {
-    throw new HttpError(404, "user not found", "USER_NOT_FOUND");
+export type BatchResult = {
+  op: BatchOperation["op"];
+  contentId: string;
+  episodeId?: string;
+  status: BatchStatus;
+  code?: string;
+  message?: string;
+  item?: any;
+};
+
+// merge adds the imported rows; replace also removes items the file lacks
+export type ImportMode = "merge" | "replace";
+export const IMPORT_MODES: ImportMode[] = ["merge", "replace"];
+
+// one row of GET /export; POST /import reads the same columns
+export type ExportRow = {
+  contentType: "movie" | "tvshow";
+  contentId: string;
+  episodeId?: string;
+  title: string;
+  addedAt: Date;
+};
+export const EXPORT_COLUMNS: (keyof ExportRow)[] = [
+  "contentType",
+  "contentId",
+  "episodeId",
+  "title",
+  "addedAt",
+];
+
+// an import row, or the error of a row the controller could not parse
+export type ImportRow =
+  | Omit<BatchAddOperation, "op" | "snapshot" | "position">
+  | HttpError;
+
+export type ImportResult = {
+  row: number; // 1-based, header excluded
+  contentType?: string;
+  contentId?: string;
+  episodeId?: string;
+  status: Exclude<BatchStatus, "removed">;
+  code?: string;
+  message?: string;
+};
+
+/**
+ * Resolve a list id from the API to the value stored on items:
+ * null for the default list, the list ObjectId for a named list the user owns.
+ */
+export async function resolveListId(
+  userOid: Types.ObjectId,
+  listId?: string,
+): Promise<Types.ObjectId | null> {
+  if (!listId || listId === DEFAULT_LIST_ID) return null;
+  if (!Types.ObjectId.isValid(listId)) {
+    throw new HttpError(400, "invalid listId", "INVALID_LIST_ID");
   }
+  const listOid = new Types.ObjectId(listId);
+  const exists = await ListModel.exists({ _id: listOid, userId: userOid });
+  if (!exists) throw new HttpError(404, "list not found", "LIST_NOT_FOUND");
+  return listOid;
+}
 
-  let snapshot = payload.snapshot;
-  if (payload.contentType === "movie") {
-    const movie = await MovieModel.findById(contentOid).lean();
-    if (!movie) {
-      throw new HttpError(404, "movie not found", "CONTENT_NOT_FOUND");
+type ContentRef = Pick<AddPayload, "contentId" | "contentType" | "episodeId">;
+
+type ResolvedContent = {
+  contentOid: Types.ObjectId;
+  episodeOid?: Types.ObjectId;
+  available: boolean;
+  snapshot: Snapshot;
+};
+
+/** catalog docs by id; skips the query when there is nothing to look up */
+async function findByIds(model: any, ids: Types.ObjectId[]) {
+  const byId = new Map<string, any>();
+  if (!ids.length) return byId;
+  const docs = await model.find({ _id: { $in: ids } }).lean();
+  for (const doc of docs) byId.set(doc._id.toString(), doc);
+  return byId;
+}
+
+/**
+ * Check that the referenced movies, shows and episodes exist (one query per
+ * collection). Returns, per ref, the resolved content or the error to report.
+ */
+async function resolveContent(
+  refs: ContentRef[],
+): Promise<(ResolvedContent | HttpError)[]> {
+  const parsed = refs.map((ref) => {
+    if (!Types.ObjectId.isValid(ref.contentId)) {
+      return new HttpError(400, "invalid contentId", "INVALID_CONTENT_ID");
     }
-    // if no snapshot provided, build one from movie
-    if (!snapshot) {
-      snapshot = {
-        title: movie.title,
-        posterUrl: (movie as any).posterUrl,
-        genres: (movie as any).genres || [],
-        shortDescription: (movie as any).description || "",
-      };
+    if (ref.episodeId && !Types.ObjectId.isValid(ref.episodeId)) {
+      return new HttpError(400, "invalid episodeId", "INVALID_EPISODE_ID");
     }
-    // episodeId must not be provided for movies
-    if (episodeOid) {
-      throw new HttpError(
-        400,
-        "episodeId provided for movie contentType",
-        "INVALID_PAYLOAD",
-      );
+    return {
+      ref,
+      contentOid: new Types.ObjectId(ref.contentId),
+      episodeOid: ref.episodeId ? new Types.ObjectId(ref.episodeId) : undefined,
+    };
+  });
+  const valid = parsed.filter(
+    (p): p is Exclude<typeof p, HttpError> => !(p instanceof HttpError),
+  );
+  const idsOf = (type: ContentRef["contentType"]) =>
+    valid.filter((p) => p.ref.contentType === type).map((p) => p.contentOid);
+
+  const [movies, shows, episodes] = await Promise.all([
+    findByIds(MovieModel, idsOf("movie")),
+    findByIds(TVShowModel, idsOf("tvshow")),
+    findByIds(
+      EpisodeModel,
+      valid.flatMap((p) => (p.episodeOid ? [p.episodeOid] : [])),
+    ),
+  ]);
+
+  return parsed.map((p) => {
+    if (p instanceof HttpError) return p;
+    const { ref, contentOid, episodeOid } = p;
+    if (ref.contentType === "movie") {
+      const movie = movies.get(contentOid.toString());
+      if (!movie) {
+        return new HttpError(404, "movie not found", "CONTENT_NOT_FOUND");
+      }
+      // episodeId must not be provided for movies
+      if (episodeOid) {
+        return new HttpError(
+          400,
+          "episodeId provided for movie contentType",
+          "INVALID_PAYLOAD",
+        );
+      }
+      return {
+        contentOid,
+        available: movie.isAvailable !== false,
+        snapshot: snapshotFrom(movie),
+      };
     }
-  } else {
+
     // contentType === "tvshow"
-    const show = await TVShowModel.findById(contentOid).lean();
+    const show = shows.get(contentOid.toString());
     if (!show) {
-      throw new HttpError(404, "tv show not found", "CONTENT_NOT_FOUND");
-    }
-    // build snapshot if absent
-    if (!snapshot) {
-      snapshot = {
-        title: show.title,
-        posterUrl: (show as any).posterUrl,
-        genres: (show as any).genres || [],
-        shortDescription: (show as any).description || "",
-      };
+      return new HttpError(404, "tv show not found", "CONTENT_NOT_FOUND");
     }
+    let available = show.isAvailable !== false;
     // if episodeId present, verify episode exists and belongs to this show
     if (episodeOid) {
-      const episode = await EpisodeModel.findById(episodeOid).lean();
+      const episode = episodes.get(episodeOid.toString());
       if (!episode) {
-        throw new HttpError(404, "episode not found", "EPISODE_NOT_FOUND");
+        return new HttpError(404, "episode not found", "EPISODE_NOT_FOUND");
       }
-      // episode.showId or equivalent must match contentId
-      const linkedShowId = (episode as any).showId;
-      if (
-        !linkedShowId ||
-        new Types.ObjectId(linkedShowId).toString() !== contentOid.toString()
-      ) {
-        throw new HttpError(
+      if (episode.showId?.toString() !== contentOid.toString()) {
+        return new HttpError(
           400,
           "episode does not belong to provided tv show",
           "EPISODE_MISMATCH",
         );
       }
+      available = available && episode.isAvailable !== false;
     }
+    return { contentOid, episodeOid, available, snapshot: snapshotFrom(show) };
+  });
+}
+
+/** verify the user exists and resolve the list it is writing to */
+async function resolveScope(userId: string, listId?: string) {
+  if (!Types.ObjectId.isValid(userId)) {
+    throw new HttpError(400, "invalid userId", "INVALID_USER_ID");
+  }
+  const userOid = new Types.ObjectId(userId);
+  const userExists = await UserModel.exists({ _id: userOid });
+  if (!userExists) {
+    throw new HttpError(404, "user not found", "USER_NOT_FOUND");
+  }
+  const listOid = await resolveListId(userOid, listId);
+  const scope: ListFilter = {
+    userId: userOid,
+    listId: listOid,
+    deletedAt: null,
+  };
+  return scope;
+}
+
+/** active items of a list; sampled into mylist_list_size once an hour */
+async function countItems(scope: ListFilter) {
+  const size = await MyListItemModel.countDocuments(scope);
+  const sampleKey = `${scope.userId}:${scope.listId ?? DEFAULT_LIST_ID}`;
+  if (!sampledLists.get(sampleKey)) {
+    sampledLists.set(sampleKey, true, LIST_SIZE_SAMPLE_MS);
+    listSize.observe({}, size);
   }
+  return size;
+}
+
+/**
+ * How many more items the list can take. Checked before writing, so
+ * concurrent adds can overshoot MAX_LIST_SIZE slightly.
+ */
+async function roomLeft(scope: ListFilter) {
+  const size = await countItems(scope);
+  return Math.max(0, MAX_LIST_SIZE - size);
+}
+
+const listFull = () =>
+  new HttpError(
+    409,
+    `a list holds at most ${MAX_LIST_SIZE} items`,
+    "LIST_FULL",
+  );
+
+/** rank above the current top of the custom order */
+async function topRank(scope: ListFilter) {
+  const first = await MyListItemModel.findOne({
+    ...scope,
+    rank: { $ne: null },
+  })
+    .sort({ rank: 1 })
+    .select({ rank: 1 })
+    .lean();
+  return rankBetween(null, first?.rank);
+}
+
+export async function addToList(
+  userId: string,
+  payload: AddPayload,
+  includeTotal: boolean = false,
+) {
+  const scope = await resolveScope(userId, payload.listId);
+  const listKey = scope.listId?.toString();
+
+  const [content] = await resolveContent([payload]);
+  if (content instanceof HttpError) throw content;
+  if (!(await roomLeft(scope))) {
+    // saving an item that is already in a full list still returns it
+    const existing = await MyListItemModel.findOne({
+      ...scope,
+      contentId: content.contentOid,
+      episodeId: content.episodeOid ?? null,
+    }).lean();
+    if (existing) return existing;
+    throw listFull();
+  }
+  // new items go to the top of the custom order, like they do for addedAt
+  const rank = await topRank(scope);
+  const seq = await nextSeq(scope.userId);
+
   //Prepare document to insert
   const doc: any = {
-    userId: userOid,
+    ...scope,
     contentType: payload.contentType,
-    contentId: contentOid,
+    contentId: content.contentOid,
     addedAt: new Date(),
-    snapshot,
-    contentVisibility: "available",
+    // client snapshot fields win, the catalog fills the rest (and sort keys)
+    snapshot: { ...content.snapshot, ...payload.snapshot },
+    searchTokens: searchTokens((payload.snapshot ?? content.snapshot).title),
+    contentVisibility: content.available ? "available" : "unavailable",
+    rank,
+    seq,
+    addedSeq: seq,
   };
-  if (episodeOid) doc.episodeId = episodeOid;
+  if (content.episodeOid) doc.episodeId = content.episodeOid;
+  if (!doc.listId) delete doc.listId;
   try {
     const item = await MyListItemModel.create(doc);
+    if (doc.rank.length > MAX_RANK_LENGTH) await rebalanceRanks(scope);
     // bump version for cache invalidation
-    await bumpUserVersion(userId);
+    await bumpUserVersion(userId, listKey);
+    await recordEvents([itemEvent(item, "add", payload.source)]);
     return item;
   } catch (err: any) {
     // duplicate key means already exists
     if (err.code === 11000) {
       // return existing item
       const existing = await MyListItemModel.findOne({
-        userId: doc.userId,
+        ...scope,
         contentId: doc.contentId,
+        episodeId: content.episodeOid ?? null,
       }).lean();
       if (existing) {
         // still bump version to ensure clients see the latest consistent state if needed
-        await bumpUserVersion(userId).catch(() => {});
+        await bumpUserVersion(userId, listKey).catch(() => {});
         return existing;
       }
       throw new HttpError(
@@ -159,18 +490,397 @@ export async function addToList(
     }
     logger.error("addToList failed", err);
     throw new HttpError(500, "failed to add item to list", "INTERNAL_ERROR");
+  } finally {
+    await releaseSeq(scope.userId, seq);
   }
 }
 
-export async function removeFromList(userId: string, contentId: string) {
+/** key of a saved item within one list */
+const itemKey = (contentId: unknown, episodeId?: unknown) =>
+  `${contentId}:${episodeId ?? ""}`;
+
+/**
+ * Apply up to MAX_BATCH_SIZE add/remove operations to one list. Content is
+ * validated with one query per collection and the list version is bumped once.
+ * Operations do not fail the batch; each gets its own result, in request order.
+ */
+export async function batchUpdate(
+  userId: string,
+  operations: BatchOperation[],
+  listId?: string,
+  source?: string,
+) {
+  if (operations.length > MAX_BATCH_SIZE) {
+    throw new HttpError(
+      400,
+      `at most ${MAX_BATCH_SIZE} operations per batch`,
+      "BATCH_TOO_LARGE",
+    );
+  }
+  const scope = await resolveScope(userId, listId);
+  const results: BatchResult[] = operations.map((op) => ({
+    op: op.op,
+    contentId: op.contentId,
+    episodeId: op.episodeId,
+    status: "invalid",
+  }));
+  const fail = (i: number, err: HttpError) => {
+    results[i].status = err.status === 404 ? "not_found" : "invalid";
+    results[i].code = err.code;
+    results[i].message = err.message;
+  };
+
+  // the outcome of two operations on the same item would depend on their order
+  const seen = new Set<string>();
+  const pending: number[] = [];
+  operations.forEach((op, i) => {
+    const key = itemKey(op.contentId, op.episodeId);
+    if (seen.has(key)) {
+      return fail(
+        i,
+        new HttpError(400, "item appears twice in batch", "DUPLICATE_ITEM"),
+      );
+    }
+    seen.add(key);
+    pending.push(i);
+  });
+
+  const addIdx = pending.filter((i) => operations[i].op === "add");
+  const removeIdx = pending.filter((i) => operations[i].op === "remove");
+
+  // validate the content of every add at once
+  const contents = await resolveContent(
+    addIdx.map((i) => operations[i] as BatchAddOperation),
+  );
+  const toAdd: { index: number; content: ResolvedContent }[] = [];
+  contents.forEach((content, j) => {
+    if (content instanceof HttpError) fail(addIdx[j], content);
+    else toAdd.push({ index: addIdx[j], content });
+  });
+  const removeIds = removeIdx.filter((i) => {
+    const { contentId, episodeId } = operations[i];
+    if (!Types.ObjectId.isValid(contentId)) {
+      fail(i, new HttpError(400, "invalid contentId", "INVALID_CONTENT_ID"));
+      return false;
+    }
+    if (episodeId && !Types.ObjectId.isValid(episodeId)) {
+      fail(i, new HttpError(400, "invalid episodeId", "INVALID_EPISODE_ID"));
+      return false;
+    }
+    return true;
+  });
+
+  // one lookup for every item the batch touches
+  const touched = [
+    ...toAdd.map((a) => operations[a.index].contentId),
+    ...removeIds.map((i) => operations[i].contentId),
+  ];
+  const existing = new Map<string, any>();
+  if (touched.length) {
+    const docs = await MyListItemModel.find({
+      ...scope,
+      contentId: { $in: touched.map((id) => new Types.ObjectId(id)) },
+    }).lean();
+    for (const doc of docs) {
+      existing.set(itemKey(doc.contentId, doc.episodeId), doc);
+    }
+  }
+
+  let changed = false;
+  // one change seq for the whole batch, taken by the first write and
+  // released once the writes are done
+  let seq: number | undefined;
+  const batchSeq = async () => (seq ??= await nextSeq(scope.userId));
+
+  const events: ReturnType<typeof itemEvent>[] = [];
+
   try {
-    const res = await MyListItemModel.findOneAndDelete({
-      userId: new Types.ObjectId(userId),
-      contentId: new Types.ObjectId(contentId),
+    // --- removes ---
+    const removeDocs: Types.ObjectId[] = [];
+    for (const i of removeIds) {
+      const { contentId, episodeId } = operations[i];
+      const doc = existing.get(
+        itemKey(
+          new Types.ObjectId(contentId),
+          episodeId && new Types.ObjectId(episodeId),
+        ),
+      );
+      if (!doc) {
+        fail(i, new HttpError(404, "item not found", "ITEM_NOT_FOUND"));
+        continue;
+      }
+      removeDocs.push(doc._id);
+      events.push(itemEvent(doc, "remove", source));
+      results[i].status = "removed";
+    }
+    if (removeDocs.length) {
+      await MyListItemModel.updateMany(
+        { _id: { $in: removeDocs } },
+        { $set: { ...trashUpdate(), seq: await batchSeq() } },
+      );
+      changed = true;
+    }
+
+    // --- adds ---
+    const inserts: { index: number; doc: any }[] = [];
+    for (const { index, content } of toAdd) {
+      const op = operations[index] as BatchAddOperation;
+      const doc = existing.get(itemKey(content.contentOid, content.episodeOid));
+      if (doc) {
+        results[index].status = "already_present";
+        results[index].item = doc;
+        continue;
+      }
+      inserts.push({
+        index,
+        doc: {
+          ...scope,
+          contentType: op.contentType,
+          contentId: content.contentOid,
+          episodeId: content.episodeOid,
+          snapshot: { ...content.snapshot, ...op.snapshot },
+          searchTokens: searchTokens((op.snapshot ?? content.snapshot).title),
+          contentVisibility: content.available ? "available" : "unavailable",
+        },
+      });
+    }
+    if (inserts.length) {
+      // past the list quota, the later operations fail
+      const room = await roomLeft(scope);
+      for (const { index } of inserts.splice(room)) fail(index, listFull());
+    }
+    if (inserts.length) {
+      // later operations land on top, as if they had been added one by one
+      const addedAt = new Date();
+      const addedSeq = await batchSeq();
+      let rank = await topRank(scope);
+      for (let j = inserts.length - 1; j >= 0; j--) {
+        const { doc } = inserts[j];
+        if (!doc.listId) delete doc.listId;
+        if (!doc.episodeId) delete doc.episodeId;
+        Object.assign(doc, { addedAt, rank, seq: addedSeq, addedSeq });
+        rank = rankBetween(null, rank);
+      }
+      const inserted = await insertIgnoringDuplicates(
+        inserts.map((x) => x.doc),
+      );
+      inserts.forEach(({ index }, j) => {
+        results[index].status = inserted[j] ? "added" : "already_present";
+        results[index].item = inserted[j];
+        if (inserted[j]) events.push(itemEvent(inserted[j], "add", source));
+      });
+      if (inserted.some(Boolean)) changed = true;
+      if (inserts.some(({ doc }) => doc.rank.length > MAX_RANK_LENGTH)) {
+        await rebalanceRanks(scope);
+      }
+    }
+  } finally {
+    if (seq !== undefined) await releaseSeq(scope.userId, seq);
+  }
+
+  if (changed) await bumpUserVersion(userId, scope.listId?.toString());
+  await recordEvents(events);
+  return results;
+}
+
+/**
+ * Every item of a list in custom order, top first, read through a mongo
+ * cursor so exports are not bounded by MAX_LIMIT. Scope errors are thrown
+ * here, before the caller starts writing.
+ */
+export async function exportList(
+  userId: string,
+  listId?: string,
+): Promise<AsyncIterable<ExportRow>> {
+  const scope = await resolveScope(userId, listId);
+  const cursor = MyListItemModel.find(scope, {
+    contentType: 1,
+    contentId: 1,
+    episodeId: 1,
+    "snapshot.title": 1,
+    addedAt: 1,
+  })
+    .sort({ rank: 1, _id: 1 })
+    .lean()
+    .cursor();
+  return (async function* () {
+    for await (const doc of cursor) {
+      yield {
+        contentType: doc.contentType,
+        contentId: doc.contentId.toString(),
+        episodeId: doc.episodeId?.toString(),
+        title: doc.snapshot?.title,
+        addedAt: doc.addedAt,
+      };
+    }
+  })();
+}
+
+/**
+ * Import up to MAX_IMPORT_ROWS rows into a list through batchUpdate, so rows
+ * get the same content checks as single adds. The first row ends up on top.
+ * mode=replace then moves the items no row names to the trash (a failed row
+ * keeps its item). Returns a report with one result per row, in file order.
+ */
+export async function importList(
+  userId: string,
+  rows: ImportRow[],
+  mode: ImportMode,
+  listId?: string,
+  source?: string,
+) {
+  if (!rows.length) {
+    throw new HttpError(400, "import has no rows", "EMPTY_IMPORT");
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new HttpError(
+      400,
+      `at most ${MAX_IMPORT_ROWS} rows per import`,
+      "IMPORT_TOO_LARGE",
+    );
+  }
+  const scope = await resolveScope(userId, listId);
+  const results: ImportResult[] = rows.map((row, i) =>
+    row instanceof HttpError
+      ? { row: i + 1, status: "invalid", code: row.code, message: row.message }
+      : {
+          row: i + 1,
+          contentType: row.contentType,
+          contentId: row.contentId,
+          episodeId: row.episodeId,
+          status: "invalid",
+        },
+  );
+
+  const keep = new Set<string>();
+  const pending: number[] = [];
+  rows.forEach((row, i) => {
+    if (row instanceof HttpError) return;
+    const key = itemKey(
+      row.contentId.toLowerCase(),
+      row.episodeId?.toLowerCase(),
+    );
+    if (keep.has(key)) {
+      results[i].code = "DUPLICATE_ITEM";
+      results[i].message = "item appears twice in import";
+      return;
+    }
+    keep.add(key);
+    pending.push(i);
+  });
+
+  // batchUpdate puts later operations on top, so feed the rows bottom-up
+  pending.reverse();
+  for (let i = 0; i < pending.length; i += MAX_BATCH_SIZE) {
+    const chunk = pending.slice(i, i + MAX_BATCH_SIZE);
+    const batch = await batchUpdate(
+      userId,
+      chunk.map((j) => ({
+        op: "add" as const,
+        ...(rows[j] as Exclude<ImportRow, HttpError>),
+      })),
+      listId,
+      source,
+    );
+    batch.forEach(({ status, code, message }, k) => {
+      Object.assign(results[chunk[k]], { status, code, message });
     });
+  }
+
+  let removed = 0;
+  if (mode === "replace") {
+    const current = await MyListItemModel.find(scope, {
+      userId: 1,
+      listId: 1,
+      contentType: 1,
+      contentId: 1,
+      episodeId: 1,
+      "snapshot.title": 1,
+    }).lean();
+    const stale = current.filter(
+      (doc) => !keep.has(itemKey(doc.contentId, doc.episodeId)),
+    );
+    if (stale.length) {
+      const res = await withSeq(scope.userId, (seq) =>
+        MyListItemModel.updateMany(
+          { _id: { $in: stale.map((doc) => doc._id) } },
+          { $set: { ...trashUpdate(), seq } },
+        ),
+      );
+      removed = res.modifiedCount;
+      await bumpUserVersion(userId, scope.listId?.toString());
+      await recordEvents(stale.map((doc) => itemEvent(doc, "remove", source)));
+    }
+  }
+
+  const summary = { added: 0, already_present: 0, not_found: 0, invalid: 0 };
+  for (const result of results) summary[result.status]++;
+  return { mode, summary: { ...summary, removed }, results };
+}
+
+/**
+ * insertMany that tolerates items saved concurrently by another request.
+ * Returns the inserted doc per input, null where it already existed.
+ */
+async function insertIgnoringDuplicates(docs: any[]) {
+  let inserted: any[];
+  try {
+    inserted = await MyListItemModel.insertMany(docs, { ordered: false });
+  } catch (err: any) {
+    const writeErrors: any[] = err.writeErrors ?? [];
+    if (!writeErrors.length || writeErrors.some((e) => e.code !== 11000)) {
+      logger.error("batch insert failed", err);
+      throw new HttpError(500, "failed to add items to list", "INTERNAL_ERROR");
+    }
+    inserted = err.insertedDocs ?? [];
+  }
+  const byKey = new Map<string, any>();
+  for (const doc of inserted) {
+    byKey.set(itemKey(doc.contentId, doc.episodeId), doc.toObject());
+  }
+  return docs.map((doc) => byKey.get(itemKey(doc.contentId, doc.episodeId)));
+}
+
+/**
+ * Moves one saved item to the trash. For shows, episodeId selects a saved
+ * episode; without it the show-level save is removed and saved episodes stay.
+ */
+export async function removeFromList(
+  userId: string,
+  contentId: string,
+  listId?: string,
+  episodeId?: string,
+  source?: string,
+) {
+  if (!Types.ObjectId.isValid(userId)) {
+    throw new HttpError(400, "invalid userId", "INVALID_USER_ID");
+  }
+  if (!Types.ObjectId.isValid(contentId)) {
+    throw new HttpError(400, "invalid contentId", "INVALID_CONTENT_ID");
+  }
+  if (episodeId && !Types.ObjectId.isValid(episodeId)) {
+    throw new HttpError(400, "invalid episodeId", "INVALID_EPISODE_ID");
+  }
+  const userOid = new Types.ObjectId(userId);
+  const listOid = await resolveListId(userOid, listId);
+  try {
+    const res = await withSeq(userOid, (seq) =>
+      MyListItemModel.findOneAndUpdate(
+        {
+          userId: userOid,
+          listId: listOid,
+          contentId: new Types.ObjectId(contentId),
+          episodeId: episodeId ? new Types.ObjectId(episodeId) : null,
+          deletedAt: null,
+        },
+        { $set: { ...trashUpdate(), seq } },
+        { new: true },
+      ),
+    );
     if (res) {
       // bump version for cache invalidation
-      await bumpUserVersion(userId);
+      await bumpUserVersion(userId, listOid?.toString());
+      await recordEvents([itemEvent(res, "remove", source)]);
     }
     return res;
   } catch (err) {
@@ -182,6 +892,520 @@ export async function removeFromList(userId: string, contentId: string) {
   }
 }
 
+/**
+ * Put the most recently trashed copy of an item back into its list. addedAt
+ * and rank are kept, so it reappears where it was. Restoring an item that
+ * is in the list again (restored or re-added) returns that item.
+ */
+export async function restoreItem(
+  userId: string,
+  contentId: string,
+  listId?: string,
+  episodeId?: string,
+  source?: string,
+) {
+  if (!Types.ObjectId.isValid(contentId)) {
+    throw new HttpError(400, "invalid contentId", "INVALID_CONTENT_ID");
+  }
+  if (episodeId && !Types.ObjectId.isValid(episodeId)) {
+    throw new HttpError(400, "invalid episodeId", "INVALID_EPISODE_ID");
+  }
+  const scope = await resolveScope(userId, listId);
+  const key = {
+    contentId: new Types.ObjectId(contentId),
+    episodeId: episodeId ? new Types.ObjectId(episodeId) : null,
+  };
+  const active = () => MyListItemModel.findOne({ ...scope, ...key }).lean();
+
+  const existing = await active();
+  if (existing) return existing;
+  if (!(await roomLeft(scope))) throw listFull();
+  const seq = await nextSeq(scope.userId);
+  try {
+    const item = await MyListItemModel.findOneAndUpdate(
+      {
+        userId: scope.userId,
+        listId: scope.listId,
+        ...key,
+        deletedAt: { $ne: null },
+      },
+      { $set: { deletedAt: null, seq, addedSeq: seq }, $unset: { purgeAt: 1 } },
+      { sort: { deletedAt: -1 }, new: true },
+    ).lean();
+    if (!item) {
+      throw new HttpError(404, "item not found in trash", "ITEM_NOT_FOUND");
+    }
+    await bumpUserVersion(userId, scope.listId?.toString());
+    await recordEvents([itemEvent(item, "restore", source)]);
+    return item;
+  } catch (err: any) {
+    if (err instanceof HttpError) throw err;
+    // re-added while restoring
+    if (err.code === 11000) {
+      const readded = await active();
+      if (readded) return readded;
+    }
+    logger.error("restoreItem failed", err);
+    throw new HttpError(500, "failed to restore item", "INTERNAL_ERROR");
+  } finally {
+    await releaseSeq(scope.userId, seq);
+  }
+}
+
+/**
+ * decode and validate a newest-first cursor ("<mode>|<date>|_id") of the
+ * trash (deletedAt) or the activity log (createdAt)
+ */
+function decodeTimeCursorSafe(cursor: string, expected: "trash" | "activity") {
+  try {
+    const raw = Buffer.from(cursor, "base64").toString("utf8");
+    const [mode, atStr, idStr] = raw.split("|");
+    if (mode !== expected || !atStr || !idStr) {
+      throw new Error("invalid cursor format");
+    }
+    const at = new Date(atStr);
+    if (Number.isNaN(at.getTime())) throw new Error("invalid cursor date");
+    if (!Types.ObjectId.isValid(idStr)) throw new Error("invalid cursor id");
+    return { at, id: new Types.ObjectId(idStr) };
+  } catch (err) {
+    logger.error("cursor decode error:", err);
+    throw new HttpError(400, "Invalid cursor", "INVALID_CURSOR");
+  }
+}
+
+/**
+ * Trashed items of a list, most recently removed first, with the time each
+ * one is purged. Not cached: the trash is small and read rarely.
+ */
+export async function getTrash(
+  userId: string,
+  opts: { limit?: number; cursor?: string; listId?: string } = {},
+) {
+  const limit = Math.min(opts.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
+  const scope = await resolveScope(userId, opts.listId);
+  const query: any = {
+    userId: scope.userId,
+    listId: scope.listId,
+    deletedAt: { $ne: null },
+  };
+  if (opts.cursor) {
+    const { at, id } = decodeTimeCursorSafe(opts.cursor, "trash");
+    query.$or = [
+      { deletedAt: { $lt: at } },
+      { deletedAt: at, _id: { $lt: id } },
+    ];
+  }
+  const docs = await MyListItemModel.find(query)
+    .sort({ deletedAt: -1, _id: -1 })
+    .limit(limit + 1)
+    .lean();
+
+  let nextCursor: string | null = null;
+  if (docs.length > limit) {
+    docs.length = limit;
+    const last = docs[docs.length - 1];
+    nextCursor = Buffer.from(
+      `trash|${last.deletedAt!.toISOString()}|${last._id}`,
+    ).toString("base64");
+  }
+  return { items: docs, nextCursor };
+}
+
+/**
+ * Activity log of a list (adds, removes, restores, reorders), newest first.
+ * Events expire after ACTIVITY_RETENTION_DAYS.
+ */
+export async function getActivity(
+  userId: string,
+  opts: { limit?: number; cursor?: string; listId?: string } = {},
+) {
+  const limit = Math.min(opts.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
+  const scope = await resolveScope(userId, opts.listId);
+  const query: any = { userId: scope.userId, listId: scope.listId };
+  if (opts.cursor) {
+    const { at, id } = decodeTimeCursorSafe(opts.cursor, "activity");
+    query.$or = [
+      { createdAt: { $lt: at } },
+      { createdAt: at, _id: { $lt: id } },
+    ];
+  }
+  const events = await ListEventModel.find(query, {
+    action: 1,
+    contentId: 1,
+    contentType: 1,
+    episodeId: 1,
+    title: 1,
+    actor: 1,
+    source: 1,
+    createdAt: 1,
+  })
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(limit + 1)
+    .lean();
+
+  let nextCursor: string | null = null;
+  if (events.length > limit) {
+    events.length = limit;
+    const last = events[events.length - 1];
+    nextCursor = Buffer.from(
+      `activity|${last.createdAt.toISOString()}|${last._id}`,
+    ).toString("base64");
+  }
+  return { items: events, nextCursor };
+}
+
+// a sync token older than this may predate removals the trash already purged
+const SYNC_TOKEN_MAX_AGE_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+type SyncToken = { seq: number; id: Types.ObjectId | null; issuedAt: number };
+
+/**
+ * base64 "sync|<seq>|<_id>|<issued ms>": every change up to seq was
+ * delivered, at seq itself only up to _id when one is given
+ */
+function encodeSyncToken({ seq, id, issuedAt }: SyncToken) {
+  return Buffer.from(`sync|${seq}|${id ?? ""}|${issuedAt}`).toString("base64");
+}
+
+function decodeSyncTokenSafe(token: string): SyncToken {
+  try {
+    const raw = Buffer.from(token, "base64").toString("utf8");
+    const [mode, seqStr, idStr, issuedStr] = raw.split("|");
+    const seq = Number(seqStr);
+    const issuedAt = Number(issuedStr);
+    if (mode !== "sync" || !Number.isSafeInteger(seq) || seq < 0) {
+      throw new Error("invalid token format");
+    }
+    if (!Number.isFinite(issuedAt)) throw new Error("invalid token date");
+    if (idStr && !Types.ObjectId.isValid(idStr)) {
+      throw new Error("invalid token id");
+    }
+    return { seq, id: idStr ? new Types.ObjectId(idStr) : null, issuedAt };
+  } catch (err) {
+    logger.error("sync token decode error:", err);
+    throw new HttpError(400, "Invalid sync token", "INVALID_SYNC_TOKEN");
+  }
+}
+
+/** add/update/remove, as seen by a client holding a token at sinceSeq */
+function changeOp(item: any, sinceSeq: number): ChangeOp {
+  if (item.deletedAt) return "remove";
+  return (item.addedSeq ?? 0) > sinceSeq ? "add" : "update";
+}
+
+/**
+ * Items of a list added, updated or removed since a sync token, oldest
+ * change first; an item changed several times is returned once, as it is
+ * now. Without a token, or with one older than the trash retention (the
+ * removals it missed may be purged already), resyncRequired tells the
+ * client to refetch the whole list and start over from nextToken.
+ */
+export async function getChanges(
+  userId: string,
+  opts: { since?: string; limit?: number; listId?: string } = {},
+) {
+  const limit = Math.min(opts.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
+  const scope = await resolveScope(userId, opts.listId);
+  const since = opts.since ? decodeSyncTokenSafe(opts.since) : null;
+
+  // read before the items, so a page never runs ahead of its token; stop
+  // below seqs still being written, or a later read would skip their items
+  const now = Date.now();
+  const head = await settledSeq(scope.userId);
+  const fresh = encodeSyncToken({ seq: head, id: null, issuedAt: now });
+  if (
+    !since ||
+    since.seq > head ||
+    now - since.issuedAt > SYNC_TOKEN_MAX_AGE_MS
+  ) {
+    return {
+      resyncRequired: true,
+      changes: [],
+      nextToken: fresh,
+      hasMore: false,
+    };
+  }
+
+  const query: any = {
+    userId: scope.userId,
+    listId: scope.listId,
+    $or: [{ seq: { $gt: since.seq, $lte: head } }],
+  };
+  if (since.id) query.$or.push({ seq: since.seq, _id: { $gt: since.id } });
+  const docs = await MyListItemModel.find(query)
+    .sort({ seq: 1, _id: 1 })
+    .limit(limit + 1)
+    .lean();
+
+  let nextToken = fresh;
+  const hasMore = docs.length > limit;
+  if (hasMore) {
+    docs.length = limit;
+    const last = docs[docs.length - 1];
+    // the client is still catching up from the old token: keep its issue time
+    nextToken = encodeSyncToken({
+      seq: last.seq!,
+      id: last._id as Types.ObjectId,
+      issuedAt: since.issuedAt,
+    });
+  }
+  return {
+    resyncRequired: false,
+    changes: docs.map((item) => ({ op: changeOp(item, since.seq), item })),
+    nextToken,
+    hasMore,
+  };
+}
+
+/**
+ * Move an item directly before or after another item in the user's custom order.
+ * Only the moved item gets a new rank.
+ */
+export async function moveItem(
+  userId: string,
+  contentId: string,
+  target: MoveTarget,
+  listId?: string,
+  episodeId?: string,
+  source?: string,
+) {
+  const anchorId = target.before ?? target.after;
+  if (!Types.ObjectId.isValid(userId)) {
+    throw new HttpError(400, "invalid userId", "INVALID_USER_ID");
+  }
+  if (!Types.ObjectId.isValid(contentId) || !anchorId) {
+    throw new HttpError(400, "invalid contentId", "INVALID_CONTENT_ID");
+  }
+  if (!Types.ObjectId.isValid(anchorId)) {
+    throw new HttpError(400, "invalid anchor contentId", "INVALID_CONTENT_ID");
+  }
+  for (const id of [episodeId, target.anchorEpisodeId]) {
+    if (id && !Types.ObjectId.isValid(id)) {
+      throw new HttpError(400, "invalid episodeId", "INVALID_EPISODE_ID");
+    }
+  }
+  if (anchorId === contentId && episodeId === target.anchorEpisodeId) {
+    throw new HttpError(
+      400,
+      "cannot move an item relative to itself",
+      "INVALID_PAYLOAD",
+    );
+  }
+
+  const userOid = new Types.ObjectId(userId);
+  const listOid = await resolveListId(userOid, listId);
+  const scope: ListFilter = {
+    userId: userOid,
+    listId: listOid,
+    deletedAt: null,
+  };
+  await ensureRanks(scope);
+
+  const [item, anchor] = await Promise.all([
+    MyListItemModel.findOne({
+      ...scope,
+      contentId: new Types.ObjectId(contentId),
+      episodeId: episodeId ? new Types.ObjectId(episodeId) : null,
+    }).lean(),
+    MyListItemModel.findOne({
+      ...scope,
+      contentId: new Types.ObjectId(anchorId),
+      episodeId: target.anchorEpisodeId
+        ? new Types.ObjectId(target.anchorEpisodeId)
+        : null,
+    }).lean(),
+  ]);
+  if (!item) throw new HttpError(404, "item not found", "ITEM_NOT_FOUND");
+  if (!anchor) {
+    throw new HttpError(404, "anchor item not found", "ITEM_NOT_FOUND");
+  }
+
+  // closest neighbour of the anchor on the side we are inserting into
+  const side = target.before ? "before" : "after";
+  const neighbour = await MyListItemModel.findOne({
+    ...scope,
+    _id: { $ne: item._id },
+    rank: side === "before" ? { $lt: anchor.rank } : { $gt: anchor.rank },
+  })
+    .sort({ rank: side === "before" ? -1 : 1 })
+    .select({ rank: 1 })
+    .lean();
+
+  const rank =
+    side === "before"
+      ? rankBetween(neighbour?.rank, anchor.rank)
+      : rankBetween(anchor.rank, neighbour?.rank);
+
+  let updated = await withSeq(userOid, (seq) =>
+    MyListItemModel.findOneAndUpdate(
+      { _id: item._id },
+      { $set: { rank, seq } },
+      { new: true },
+    ).lean(),
+  );
+  if (rank.length > MAX_RANK_LENGTH) {
+    await rebalanceRanks(scope);
+    updated = await MyListItemModel.findById(item._id).lean();
+  }
+  await bumpUserVersion(userId, listOid?.toString());
+  await recordEvents([itemEvent(item, "reorder", source)]);
+  return updated;
+}
+
+/**
+ * Next episode to play for a show saved in the list; episodeId selects a
+ * saved episode (the starting point when nothing was watched yet).
+ */
+export async function getNextEpisode(
+  userId: string,
+  contentId: string,
+  listId?: string,
+  episodeId?: string,
+) {
+  if (!Types.ObjectId.isValid(userId)) {
+    throw new HttpError(400, "invalid userId", "INVALID_USER_ID");
+  }
+  if (!Types.ObjectId.isValid(contentId)) {
+    throw new HttpError(400, "invalid contentId", "INVALID_CONTENT_ID");
+  }
+  if (episodeId && !Types.ObjectId.isValid(episodeId)) {
+    throw new HttpError(400, "invalid episodeId", "INVALID_EPISODE_ID");
+  }
+  const userOid = new Types.ObjectId(userId);
+  const listOid = await resolveListId(userOid, listId);
+  const item = await MyListItemModel.findOne({
+    userId: userOid,
+    listId: listOid,
+    contentId: new Types.ObjectId(contentId),
+    episodeId: episodeId ? new Types.ObjectId(episodeId) : null,
+    deletedAt: null,
+  }).lean();
+  if (!item) throw new HttpError(404, "item not found", "ITEM_NOT_FOUND");
+  if (item.contentType !== "tvshow") {
+    throw new HttpError(400, "item is not a tv show", "NOT_A_SHOW");
+  }
+
+  const ref = { showId: item.contentId, savedEpisodeId: item.episodeId };
+  const next = await resolveNextEpisodes(userId, [ref]);
+  return [...next.values()][0];
+}
+
+/** rewrite every rank of the list with evenly spaced short ranks, same order */
+async function rebalanceRanks(scope: ListFilter) {
+  await ensureRanks(scope);
+  // ranked trashed items too, so a restored item lands where it was
+  const docs = await MyListItemModel.find({
+    userId: scope.userId,
+    listId: scope.listId,
+    rank: { $ne: null },
+  })
+    .sort({ rank: 1, _id: 1 })
+    .select({ _id: 1 })
+    .lean();
+  const ranks = spreadRanks(docs.length);
+  await withSeq(scope.userId, (seq) =>
+    MyListItemModel.bulkWrite(
+      docs.map((doc, i) => ({
+        updateOne: {
+          filter: { _id: doc._id },
+          update: { $set: { rank: ranks[i], seq } },
+        },
+      })),
+      { ordered: false },
+    ),
+  );
+}
+
+/**
+ * Items saved before custom ordering existed have no rank. Give them ranks
+ * below every ranked item, keeping their addedAt order. Runs before custom
+ * order writes and from the backfill job (backfillRanks), never on reads.
+ */
+async function ensureRanks(scope: ListFilter) {
+  const unranked = await MyListItemModel.find({ ...scope, rank: null })
+    .sort({ addedAt: -1, _id: -1 })
+    .select({ _id: 1 })
+    .lean();
+  if (!unranked.length) return;
+
+  const last = await MyListItemModel.findOne({
+    ...scope,
+    rank: { $ne: null },
+  })
+    .sort({ rank: -1 })
+    .select({ rank: 1 })
+    .lean();
+
+  // appending digits to the current max rank keeps every new rank above it
+  const prefix = last?.rank ?? "";
+  const ranks = spreadRanks(unranked.length);
+  await withSeq(scope.userId, (seq) =>
+    MyListItemModel.bulkWrite(
+      unranked.map((doc, i) => ({
+        updateOne: {
+          filter: { _id: doc._id, rank: { $exists: false } },
+          update: { $set: { rank: prefix + ranks[i], seq } },
+        },
+      })),
+      { ordered: false },
+    ),
+  );
+}
+
+/**
+ * Ranks the unranked items of every list (see ensureRanks), for the
+ * backfill:ranks job. Until it ran, sort=custom and exports list unranked
+ * items first. Returns the number of lists it ranked.
+ */
+export async function backfillRanks() {
+  const lists = await MyListItemModel.aggregate([
+    { $match: { rank: null, deletedAt: null } },
+    { $group: { _id: { userId: "$userId", listId: "$listId" } } },
+  ]);
+  for (const { _id } of lists) {
+    const scope: ListFilter = {
+      userId: _id.userId,
+      listId: _id.listId ?? null,
+      deletedAt: null,
+    };
+    await ensureRanks(scope);
+    await bumpUserVersion(scope.userId.toString(), scope.listId?.toString());
+  }
+  return lists.length;
+}
+
+/**
+ * Short hash of the active filters ("" when none). Part of the page cache key
+ * and of every cursor, so pages of different filter sets never mix.
+ */
+function filterKey(filters: Record<string, unknown>) {
+  const active = Object.entries(filters).filter(([, v]) => v !== undefined);
+  if (!active.length) return "";
+  return createHash("sha1")
+    .update(JSON.stringify(active))
+    .digest("hex")
+    .slice(0, 12);
+}
+
+/** base64 cursor; filtered pages append "|f=<filterKey>" */
+function encodeCursor(raw: string, filters: string) {
+  return Buffer.from(filters ? `${raw}|f=${filters}` : raw).toString("base64");
+}
+
+/** reject a cursor that was issued for a different filter set */
+function checkCursorFilters(cursor: string, filters: string) {
+  const raw = Buffer.from(cursor, "base64").toString("utf8");
+  const tail = raw.split("|").pop() ?? "";
+  const issuedFor = tail.startsWith("f=") ? tail.slice(2) : "";
+  if (issuedFor !== filters) {
+    throw new HttpError(
+      400,
+      "cursor was issued for different filters",
+      "INVALID_CURSOR",
+    );
+  }
+}
+
 /** decode and validate cursor */
 function decodeCursorSafe(cursor: string) {
   try {
@@ -199,48 +1423,366 @@ function decodeCursorSafe(cursor: string) {
 }
 
 /**
- * Read path with Redis page cache and cursor pagination.
- * Returns { items, nextCursor }.
+ * decode and validate a sort=custom cursor ("custom|rank|_id"); the rank is
+ * empty (null) after an item that was not ranked yet
+ */
+function decodeCustomCursorSafe(cursor: string) {
+  try {
+    const raw = Buffer.from(cursor, "base64").toString("utf8");
+    const [mode, rank, idStr] = raw.split("|");
+    if (mode !== "custom" || rank === undefined || !idStr) {
+      throw new Error("invalid cursor format");
+    }
+    if (!Types.ObjectId.isValid(idStr)) throw new Error("invalid cursor id");
+    return { rank: rank || null, id: new Types.ObjectId(idStr) };
+  } catch (err) {
+    logger.error("cursor decode error:", err);
+    throw new HttpError(400, "Invalid cursor", "INVALID_CURSOR");
+  }
+}
+
+/** decode and validate a keyset sort cursor ("<sort>|<JSON sort key>|_id") */
+function decodeKeysetCursorSafe(cursor: string, sort: KeysetSort) {
+  try {
+    const raw = Buffer.from(cursor, "base64").toString("utf8");
+    const [mode, keyStr, idStr] = raw.split("|");
+    // also rejects cursors issued for another sort
+    if (mode !== sort || !keyStr || !idStr) {
+      throw new Error("invalid cursor format");
+    }
+    if (!Types.ObjectId.isValid(idStr)) throw new Error("invalid cursor id");
+    const { type } = KEYSET_SORTS[sort];
+    let value = JSON.parse(decodeURIComponent(keyStr));
+    if (value !== null) {
+      if (typeof value !== (type === "number" ? "number" : "string")) {
+        throw new Error("invalid cursor key");
+      }
+      if (type === "date") {
+        value = new Date(value);
+        if (Number.isNaN(value.getTime()))
+          throw new Error("invalid cursor date");
+      }
+    }
+    return { value, id: new Types.ObjectId(idStr) };
+  } catch (err) {
+    logger.error("cursor decode error:", err);
+    throw new HttpError(400, "Invalid cursor", "INVALID_CURSOR");
+  }
+}
+
+/** mongo $or selecting the items after (value, id) in a keyset sort */
+function keysetAfter(spec: SortSpec, value: any, id: Types.ObjectId) {
+  const { field, dir } = spec;
+  const past = dir === 1 ? "$gt" : "$lt";
+  // null (or missing) sorts lowest
+  if (value === null) {
+    const sameKey = { [field]: null, _id: { [past]: id } };
+    return dir === 1 ? [sameKey, { [field]: { $ne: null } }] : [sameKey];
+  }
+  const after: any[] = [
+    { [field]: { [past]: value } },
+    { [field]: value, _id: { [past]: id } },
+  ];
+  if (dir === -1) after.push({ [field]: null });
+  return after;
+}
+
+/** value at a dotted path of a lean doc */
+function valueAt(doc: any, path: string) {
+  return path.split(".").reduce((v, key) => v?.[key], doc) ?? null;
+}
+
+/** decode and validate a groupBy=show cursor ("show|addedAt|contentId") */
+function decodeGroupCursorSafe(cursor: string) {
+  try {
+    const raw = Buffer.from(cursor, "base64").toString("utf8");
+    const [mode, addedAtStr, idStr] = raw.split("|");
+    if (mode !== "show" || !addedAtStr || !idStr) {
+      throw new Error("invalid cursor format");
+    }
+    const addedAt = new Date(addedAtStr);
+    if (Number.isNaN(addedAt.getTime())) throw new Error("invalid cursor date");
+    if (!Types.ObjectId.isValid(idStr)) throw new Error("invalid cursor id");
+    return { addedAt, id: new Types.ObjectId(idStr) };
+  } catch (err) {
+    logger.error("cursor decode error:", err);
+    throw new HttpError(400, "Invalid cursor", "INVALID_CURSOR");
+  }
+}
+
+/**
+ * groupBy=show page: one entry per saved title, newest save first. A show
+ * entry holds the show-level save (if any) and the saved episodes ordered by
+ * season/episodeNumber. Returns { items, nextCursor }.
+ */
+async function getGroupedPage(
+  query: any,
+  limit: number,
+  filters: string,
+  cursor?: string,
+) {
+  const pipeline: any[] = [
+    { $match: query },
+    { $sort: { addedAt: -1, _id: -1 } },
+    {
+      $group: {
+        _id: "$contentId",
+        contentType: { $first: "$contentType" },
+        addedAt: { $max: "$addedAt" },
+        saves: { $push: "$$ROOT" },
+      },
+    },
+  ];
+  if (cursor) {
+    const { addedAt, id } = decodeGroupCursorSafe(cursor);
+    pipeline.push({
+      $match: {
+        $or: [
+          { addedAt: { $lt: addedAt } },
+          { addedAt: addedAt, _id: { $lt: id } },
+        ],
+      },
+    });
+  }
+  pipeline.push({ $sort: { addedAt: -1, _id: -1 } }, { $limit: limit + 1 });
+
+  const groups = await MyListItemModel.aggregate(pipeline).exec();
+
+  let nextCursor: string | null = null;
+  if (groups.length > limit) {
+    const last = groups[limit - 1];
+    nextCursor = encodeCursor(
+      `show|${last.addedAt.toISOString()}|${last._id}`,
+      filters,
+    );
+    groups.splice(limit);
+  }
+
+  // one lookup for the season/episode numbers of every saved episode on the page
+  const episodeIds = groups.flatMap((g) =>
+    g.saves.filter((s: any) => s.episodeId).map((s: any) => s.episodeId),
+  );
+  const episodes = episodeIds.length
+    ? await EpisodeModel.find(
+        { _id: { $in: episodeIds } },
+        { season: 1, episodeNumber: 1, title: 1 },
+      ).lean()
+    : [];
+  const episodeById = new Map(episodes.map((e) => [e._id.toString(), e]));
+  const order = (n?: number) => n ?? Number.MAX_SAFE_INTEGER;
+
+  const items = groups.map((g) => {
+    const titleSave = g.saves.find((s: any) => !s.episodeId) ?? null;
+    const episodeSaves = g.saves
+      .filter((s: any) => s.episodeId)
+      .map((s: any) => {
+        const ep = episodeById.get(s.episodeId.toString());
+        return {
+          ...s,
+          episode: ep
+            ? {
+                season: ep.season,
+                episodeNumber: ep.episodeNumber,
+                title: ep.title,
+              }
+            : null,
+        };
+      })
+      .sort(
+        (a: any, b: any) =>
+          order(a.episode?.season) - order(b.episode?.season) ||
+          order(a.episode?.episodeNumber) - order(b.episode?.episodeNumber),
+      );
+    return {
+      contentId: g._id,
+      contentType: g.contentType,
+      addedAt: g.addedAt,
+      snapshot: (titleSave ?? g.saves[0]).snapshot,
+      contentVisibility: (titleSave ?? g.saves[0]).contentVisibility,
+      item: titleSave,
+      episodes: episodeSaves,
+    };
+  });
+
+  return { items, nextCursor };
+}
+
+/**
+ * Read path with the page cache (see cachedPage) and cursor pagination.
+ * Returns { items, nextCursor }, plus `stale: true` for a page of an earlier
+ * list version.
  */
 export async function getList(
   userId: string,
-  opts: {
-    limit?: number;
-    cursor?: string;
-    contentType?: "movie" | "tvshow";
-  } = {},
+  opts: ListOptions = {},
   includeTotal: boolean = false,
 ) {
   const limit = Math.min(opts.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
+  const sort = opts.sort ?? "addedAt";
+  const visibility = [...new Set(opts.visibility ?? DEFAULT_VISIBILITY)].sort();
+  const qTokens = opts.q !== undefined ? searchTokens(opts.q) : undefined;
+  if (qTokens && !qTokens.length) {
+    throw new HttpError(400, "q has no searchable words", "INVALID_QUERY");
+  }
+  const filters = filterKey({
+    contentType: opts.contentType,
+    genre: opts.genre,
+    q: qTokens,
+    addedAfter: opts.addedAfter,
+    addedBefore: opts.addedBefore,
+    visibility:
+      visibility.join(",") === DEFAULT_VISIBILITY.join(",")
+        ? undefined
+        : visibility,
+  });
 
-  if (!Types.ObjectId.isValid(userId)) throw new Error("invalid userId");
-
-  // fetch version atomically
-  const versionKey = userVersionKey(userId);
-  let version = await redis.get(versionKey);
-  if (!version) {
-    // initialize to "0" if absent
-    await redis.setnx(versionKey, "0");
-    version = "0";
+  if (!Types.ObjectId.isValid(userId)) {
+    throw new HttpError(400, "invalid userId", "INVALID_USER_ID");
+  }
+  if (opts.groupBy && sort !== "addedAt") {
+    throw new HttpError(
+      400,
+      "groupBy=show only supports sort=addedAt",
+      "INVALID_QUERY",
+    );
   }
 
-  const cacheKey = pageCacheKey(userId, version, limit, opts.cursor);
-  // try cache
-  try {
-    const cached = await redis.get(cacheKey);
-    if (cached) {
-      return JSON.parse(cached);
-    }
-  } catch (err) {
-    // log and continue to DB read; do not fail the request
-    logger.error("redis get failed", err);
+  const userOid = new Types.ObjectId(userId);
+  const listOid = await resolveListId(userOid, opts.listId);
+  const listKey = listOid?.toString();
+  const scope: ListFilter = {
+    userId: userOid,
+    listId: listOid,
+    deletedAt: null,
+  };
+
+  // expanded and grouped pages embed live catalog docs, so a catalog write
+  // must invalidate them like it changes their ETag (see listETag)
+  const catalogBound = Boolean(opts.expand?.length || opts.groupBy);
+  const [listVersion, catalogVersion] = await Promise.all([
+    readVersion(userVersionKey(userId, listKey)),
+    catalogBound ? readVersion(CATALOG_VERSION_KEY) : "",
+  ]);
+  const version =
+    listVersion === null || catalogVersion === null
+      ? null
+      : catalogBound
+        ? `${listVersion}-c${catalogVersion}`
+        : listVersion;
+
+  const pageKey = (pageVersion: string) =>
+    pageCacheKey(
+      listScope(userId, listKey),
+      pageVersion,
+      limit,
+      opts.cursor,
+      [
+        `sort${sort}`,
+        opts.groupBy && `group${opts.groupBy}`,
+        filters && `f${filters}`,
+        opts.expand?.length && `expand${[...opts.expand].sort().join(",")}`,
+        includeTotal && "total",
+      ]
+        .filter(Boolean)
+        .join(":"),
+    );
+  const shape: PageShape = {
+    limit,
+    sort,
+    visibility,
+    qTokens,
+    filters,
+    includeTotal,
+  };
+  const build = () => buildPage(scope, opts, shape);
+
+  // no version (cache unavailable): read from Mongo, cache nothing
+  if (version === null) {
+    pageCacheRequests.inc({ result: "bypass" });
+    return withWatchState(userId, await build(), opts);
   }
+  const page = await cachedPage(pageKey(version), pageKey("latest"), build);
+  const payload = JSON.parse(page.json);
+  // built for an older version; see cachedPage
+  if (page.stale) payload.stale = true;
+  return withWatchState(userId, payload, opts);
+}
 
+type PageShape = {
+  limit: number;
+  sort: ListSort;
+  visibility: ContentVisibility[];
+  qTokens?: string[];
+  filters: string;
+  includeTotal: boolean;
+};
+
+/** reads one list page from Mongo; getList caches it */
+async function buildPage(
+  scope: ListFilter,
+  opts: ListOptions,
+  { limit, sort, visibility, qTokens, filters, includeTotal }: PageShape,
+): Promise<any> {
   // build DB query
-  const queryAny: any = { userId: new Types.ObjectId(userId) };
+  const queryAny: any = { ...scope };
   if (opts.contentType) queryAny.contentType = opts.contentType;
+  if (opts.genre) queryAny["snapshot.genres"] = opts.genre;
+  if (qTokens) queryAny.searchTokens = titleQuery(qTokens);
+  if (opts.addedAfter || opts.addedBefore) {
+    queryAny.addedAt = {
+      ...(opts.addedAfter && { $gt: opts.addedAfter }),
+      ...(opts.addedBefore && { $lt: opts.addedBefore }),
+    };
+  }
+  if (opts.cursor) checkCursorFilters(opts.cursor, filters);
+  if (visibility.length < CONTENT_VISIBILITIES.length) {
+    // items saved before the field existed count as available
+    queryAny.contentVisibility = {
+      $in: visibility.includes("available")
+        ? [...visibility, null]
+        : visibility,
+    };
+  }
 
-  if (opts.cursor) {
+  if (opts.groupBy === "show") {
+    const payload: any = await listQueryDuration.time(
+      { query: "grouped_page" },
+      () => getGroupedPage(queryAny, limit, filters, opts.cursor),
+    );
+    // episodes of a group already carry their season/episode summary
+    if (opts.expand?.includes("content")) {
+      await MyListItemModel.populate(payload.items, {
+        path: "content",
+        options: { lean: true },
+      });
+    }
+    if (includeTotal) {
+      payload.total = await listQueryDuration.time({ query: "count" }, () =>
+        countItems(scope),
+      );
+    }
+    return payload;
+  }
+
+  const keyset = KEYSET_SORTS[sort as KeysetSort];
+  if (sort === "custom") {
+    if (opts.cursor) {
+      const { rank, id } = decodeCustomCursorSafe(opts.cursor);
+      // unranked items (see backfillRanks) sort first, by _id
+      queryAny.$or =
+        rank === null
+          ? [{ rank: null, _id: { $gt: id } }, { rank: { $ne: null } }]
+          : [{ rank: { $gt: rank } }, { rank: rank, _id: { $gt: id } }];
+    }
+  } else if (keyset) {
+    if (opts.cursor) {
+      const { value, id } = decodeKeysetCursorSafe(
+        opts.cursor,
+        sort as KeysetSort,
+      );
+      queryAny.$or = keysetAfter(keyset, value, id);
+    }
+  } else if (opts.cursor) {
     const { addedAt, id } = decodeCursorSafe(opts.cursor);
     queryAny.$or = [
       { addedAt: { $lt: addedAt } },
@@ -248,59 +1790,206 @@ export async function getList(
     ];
   }
 
+  const sortBy: any =
+    sort === "custom"
+      ? { rank: 1, _id: 1 }
+      : keyset
+        ? { [keyset.field]: keyset.dir, _id: keyset.dir }
+        : { addedAt: -1, _id: -1 };
+  const find = MyListItemModel.find(queryAny)
+    .sort(sortBy)
+    .limit(limit + 1);
+  // sort=title compares titles case-insensitively (matches its index)
+  if (keyset?.collation) find.collation(keyset.collation);
   // lean for performance
-  const docs = await MyListItemModel.find(queryAny)
-    .sort({ addedAt: -1, _id: -1 })
-    .limit(limit + 1)
-    .lean()
-    .exec();
+  const docs = await listQueryDuration.time({ query: "page" }, () =>
+    find.lean().exec(),
+  );
 
   let nextCursor: string | null = null;
   if (docs.length > limit) {
     const last = docs[limit - 1];
-    nextCursor = Buffer.from(
-      `${last.addedAt.toISOString()}|${last._id}`,
-    ).toString("base64");
+    const raw =
+      sort === "custom"
+        ? `custom|${last.rank ?? ""}|${last._id}`
+        : keyset
+          ? `${sort}|${encodeURIComponent(JSON.stringify(valueAt(last, keyset.field)))}|${last._id}`
+          : `${last.addedAt.toISOString()}|${last._id}`;
+    nextCursor = encodeCursor(raw, filters);
     docs.splice(limit);
   }
 
+  if (opts.expand?.includes("content")) await expandContent(docs);
+
   const payload: any = { items: docs, nextCursor };
 
   if (includeTotal) {
-    const total = await MyListItemModel.countDocuments({
-      userId: new Types.ObjectId(userId),
-    });
-    payload.total = total;
+    payload.total = await listQueryDuration.time({ query: "count" }, () =>
+      countItems(scope),
+    );
   }
 
-  // cache write with NX to avoid overwriting; short TTL for freshness
-  try {
-    await redis.set(
-      cacheKey,
-      JSON.stringify(payload),
-      "EX",
-      PAGE_TTL_SECONDS,
-      "NX",
-    );
-  } catch (err) {
-    logger.error("redis set failed", err);
+  return payload;
+}
+
+/**
+ * Strong ETag of a list page: a hash of the list version, the user's watch
+ * progress version, the catalog version and the page's options. Reads the
+ * cache only, so an unchanged page is recognized before Mongo or the page
+ * cache. Null when the ids are invalid (getList reports those) or the
+ * versions are not shared by every instance.
+ */
+export async function listETag(
+  userId: string,
+  opts: ListOptions,
+  includeTotal: boolean = false,
+) {
+  if (!Types.ObjectId.isValid(userId)) return null;
+  let listKey: string | null = null;
+  if (opts.listId && opts.listId !== DEFAULT_LIST_ID) {
+    if (!Types.ObjectId.isValid(opts.listId)) return null;
+    // same spelling as the version key getList reads
+    listKey = new Types.ObjectId(opts.listId).toString();
   }
+  const versions = await Promise.all([
+    readVersion(userVersionKey(userId, listKey)),
+    readVersion(progressVersionKey(userId)),
+    readVersion(CATALOG_VERSION_KEY),
+  ]);
+  // versions kept per instance (memory fallback) or not at all cannot tell
+  // whether another instance changed the list: no ETag then
+  if (!cache.shared || versions.includes(null)) return null;
+  const hash = createHash("sha1")
+    .update(JSON.stringify([userId, listKey, versions, opts, includeTotal]))
+    .digest("base64url");
+  return `"${hash}"`;
+}
 
+/**
+ * Watch progress (and the next episode of each show, which follows from it)
+ * changes far more often than the list, so it is attached after the page cache.
+ * Shared pages (watchState=false) do not get it.
+ */
+async function withWatchState(
+  userId: string,
+  payload: any,
+  { groupBy, watchState = true }: ListOptions,
+) {
+  if (!watchState) return payload;
+  const entries = groupBy
+    ? payload.items.flatMap((e: any) => [e, ...e.episodes])
+    : payload.items;
+  await Promise.all([
+    annotateWithProgress(userId, entries),
+    // grouped pages: once per show entry
+    annotateNextEpisodes(userId, payload.items),
+  ]);
   return payload;
 }
 
 /**
- * Mutation helpers: add and remove, each bumps user version for invalidation.
- * We return latest result so clients see immediate effect.
+ * Attach the live catalog docs to a page of items as `content` (Movie/TVShow)
+ * and `episode`; one query per collection. Deleted content comes back null.
+ */
+async function expandContent(items: any[]) {
+  await MyListItemModel.populate(items, [
+    { path: "content", options: { lean: true } },
+    { path: "episode", options: { lean: true } },
+  ]);
+}
+
+// list page builds in progress in this process, by page cache key
+const pageBuilds = new Map<
+  string,
+  Promise<{ json: string; stale?: boolean }>
+>();
+
+/**
+ * A list page as JSON: from the cache, or built on a miss. Concurrent misses
+ * of the same page in this process share one build. Across instances, a
+ * short lock lets one instance rebuild the page; the others serve the latest
+ * page of an earlier version (`stale`, kept PAGE_STALE_SECONDS past its TTL)
+ * or wait up to PAGE_LOCK_WAIT_MS for the rebuilt one before building it too.
  */
+async function cachedPage(
+  cacheKey: string,
+  latestKey: string,
+  build: () => Promise<any>,
+) {
+  const cached = await cacheGet(cacheKey);
+  if (cached) {
+    pageCacheRequests.inc({ result: "hit" });
+    return { json: cached };
+  }
+
+  let flight = pageBuilds.get(cacheKey);
+  if (!flight) {
+    flight = rebuildPage(cacheKey, latestKey, build).finally(() =>
+      pageBuilds.delete(cacheKey),
+    );
+    pageBuilds.set(cacheKey, flight);
+  }
+  const page = await flight;
+  pageCacheRequests.inc({ result: page.stale ? "stale" : "miss" });
+  return page;
+}
+
+async function rebuildPage(
+  cacheKey: string,
+  latestKey: string,
+  build: () => Promise<any>,
+) {
+  const lockKey = `${cacheKey}:lock`;
+  const locked = await cache
+    .set(lockKey, "1", { ttlSeconds: PAGE_LOCK_TTL_SECONDS, ifAbsent: true })
+    // no cache to coordinate through: just build
+    .catch(() => true);
 
-async function bumpUserVersion(userId: string) {
-  const versionKey = userVersionKey(userId);
+  if (!locked) {
+    const latest = PAGE_STALE_SECONDS > 0 && (await cacheGet(latestKey));
+    if (latest) return { json: latest, stale: true };
+    const waitUntil = Date.now() + PAGE_LOCK_WAIT_MS;
+    while (Date.now() < waitUntil) {
+      await new Promise((resolve) => setTimeout(resolve, 25));
+      const built = await cacheGet(cacheKey);
+      if (built) return { json: built };
+    }
+  }
+
+  try {
+    const json = JSON.stringify(await build());
+    await cachePage(cacheKey, latestKey, json);
+    return { json };
+  } finally {
+    if (locked) await cache.del(lockKey).catch(() => {});
+  }
+}
+
+async function cacheGet(key: string) {
   try {
-    await redis.incr(versionKey);
-    // optional TTL so version keys for inactive users expire
-    await redis.expire(versionKey, 60 * 60 * 24 * 30);
+    return await cache.get(key);
+  } catch (err) {
+    // log and continue to DB read; do not fail the request
+    logger.error("cache get failed", err);
+    pageCacheErrors.inc({ op: "get" });
+    return null;
+  }
+}
+
+async function cachePage(cacheKey: string, latestKey: string, json: string) {
+  try {
+    // cache write with NX to avoid overwriting; short TTL for freshness
+    await cache.set(cacheKey, json, {
+      ttlSeconds: PAGE_TTL_SECONDS,
+      ifAbsent: true,
+    });
+    if (PAGE_STALE_SECONDS > 0) {
+      await cache.set(latestKey, json, {
+        ttlSeconds: PAGE_TTL_SECONDS + PAGE_STALE_SECONDS,
+      });
+    }
   } catch (err) {
-    logger.error("redis incr failed", err);
+    logger.error("cache set failed", err);
+    pageCacheErrors.inc({ op: "set" });
   }
 }
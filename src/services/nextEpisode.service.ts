@@ -0,0 +1,178 @@
+import EpisodeModel from "../models/episode";
+import WatchProgressModel from "../models/watchProgress";
+import { Types } from "mongoose";
+
+// why an episode was picked:
+// resume   - the last watched episode is not finished
+// next     - the episode after the last watched one
+// saved    - nothing watched yet, the episode the user saved
+// start    - nothing watched or saved, the first episode of the show
+// finished - the last watched episode was the final one
+export type NextEpisodeReason =
+  | "resume"
+  | "next"
+  | "saved"
+  | "start"
+  | "finished";
+
+export type NextEpisode = {
+  reason: NextEpisodeReason;
+  episode: {
+    _id: Types.ObjectId;
+    season: number;
+    episodeNumber: number;
+    title: string;
+    durationMinutes?: number;
+  } | null;
+};
+
+type ShowRef = { showId: Types.ObjectId; savedEpisodeId?: Types.ObjectId };
+
+const EPISODE_FIELDS = {
+  season: 1,
+  episodeNumber: 1,
+  title: 1,
+  durationMinutes: 1,
+};
+// unavailable episodes are skipped when moving forward
+const PLAYABLE = { isAvailable: { $ne: false } };
+
+const refKey = (ref: ShowRef) => `${ref.showId}:${ref.savedEpisodeId ?? ""}`;
+
+const toView = (ep: any): NextEpisode["episode"] => ({
+  _id: ep._id,
+  season: ep.season,
+  episodeNumber: ep.episodeNumber,
+  title: ep.title,
+  durationMinutes: ep.durationMinutes,
+});
+
+/**
+ * First playable episode of each show, after `after` when given (rolling over
+ * to later seasons), keyed by show id. One aggregate for every show.
+ */
+async function firstPlayable(shows: { showId: Types.ObjectId; after?: any }[]) {
+  const found = new Map<string, any>();
+  if (!shows.length) return found;
+  const groups = await EpisodeModel.aggregate([
+    {
+      $match: {
+        ...PLAYABLE,
+        $or: shows.flatMap(({ showId, after }) =>
+          after
+            ? [
+                {
+                  showId,
+                  season: after.season,
+                  episodeNumber: { $gt: after.episodeNumber },
+                },
+                { showId, season: { $gt: after.season } },
+              ]
+            : [{ showId }],
+        ),
+      },
+    },
+    { $sort: { showId: 1, season: 1, episodeNumber: 1 } },
+    { $group: { _id: "$showId", episode: { $first: "$$ROOT" } } },
+  ]);
+  for (const group of groups) found.set(`${group._id}`, group.episode);
+  return found;
+}
+
+/**
+ * Next episode to play for each show, keyed by "showId:savedEpisodeId".
+ * The user's most recent progress on the show wins; without any, the saved
+ * episode (if any) and then the first episode of the show.
+ */
+export async function resolveNextEpisodes(userId: string, refs: ShowRef[]) {
+  const result = new Map<string, NextEpisode>();
+  if (!refs.length) return result;
+  const showIds = refs.map((r) => r.showId);
+
+  // latest progress row per show, one query
+  const rows = await WatchProgressModel.find({
+    userId: new Types.ObjectId(userId),
+    contentId: { $in: showIds },
+    episodeId: { $ne: null },
+  })
+    .sort({ updatedAt: -1 })
+    .lean();
+  const latest = new Map<string, any>();
+  for (const row of rows) {
+    if (!latest.has(`${row.contentId}`)) latest.set(`${row.contentId}`, row);
+  }
+
+  // season/episode numbers of every episode we start from, one query
+  const startIds = [
+    ...[...latest.values()].map((row) => row.episodeId),
+    ...refs.flatMap((r) => (r.savedEpisodeId ? [r.savedEpisodeId] : [])),
+  ];
+  const episodes = await EpisodeModel.find(
+    { _id: { $in: startIds } },
+    { ...EPISODE_FIELDS, isAvailable: 1 },
+  ).lean();
+  const episodeById = new Map(episodes.map((e) => [`${e._id}`, e]));
+
+  const unique = new Map(refs.map((ref) => [refKey(ref), ref]));
+  const startOf = (ref: ShowRef) => {
+    const row = latest.get(`${ref.showId}`);
+    const saved =
+      ref.savedEpisodeId && episodeById.get(`${ref.savedEpisodeId}`);
+    return {
+      row,
+      watched: row && episodeById.get(`${row.episodeId}`),
+      saved: saved && saved.isAvailable !== false ? saved : undefined,
+    };
+  };
+
+  // shows that need the episode after the watched one or their first one,
+  // searched together
+  const searches = new Map<string, { showId: Types.ObjectId; after?: any }>();
+  for (const ref of unique.values()) {
+    const { row, watched, saved } = startOf(ref);
+    if (watched && row.completed) {
+      searches.set(`${ref.showId}`, { showId: ref.showId, after: watched });
+    } else if (!watched && !saved) {
+      searches.set(`${ref.showId}`, { showId: ref.showId });
+    }
+  }
+  const found = await firstPlayable([...searches.values()]);
+
+  for (const [key, ref] of unique) {
+    const { row, watched, saved } = startOf(ref);
+    const candidate = found.get(`${ref.showId}`);
+
+    let next: NextEpisode;
+    if (watched && !row.completed) {
+      next = { reason: "resume", episode: toView(watched) };
+    } else if (watched) {
+      next = candidate
+        ? { reason: "next", episode: toView(candidate) }
+        : { reason: "finished", episode: null };
+    } else if (saved) {
+      next = { reason: "saved", episode: toView(saved) };
+    } else {
+      next = { reason: "start", episode: candidate ? toView(candidate) : null };
+    }
+    result.set(key, next);
+  }
+  return result;
+}
+
+/**
+ * Set `nextEpisode` on the show items (or groupBy=show entries) of a page.
+ * Like progress, this is attached after the page cache.
+ */
+export async function annotateNextEpisodes(userId: string, entries: any[]) {
+  const shows = entries.filter((e) => e.contentType === "tvshow");
+  const refOf = (e: any): ShowRef => ({
+    showId: new Types.ObjectId(`${e.contentId}`),
+    savedEpisodeId: e.episodeId
+      ? new Types.ObjectId(`${e.episodeId}`)
+      : undefined,
+  });
+  const next = await resolveNextEpisodes(userId, shows.map(refOf));
+  for (const entry of shows) {
+    entry.nextEpisode = next.get(refKey(refOf(entry))) ?? null;
+  }
+}
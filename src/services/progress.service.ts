@@ -0,0 +1,252 @@
+import WatchProgressModel from "../models/watchProgress";
+import MyListItemModel, { trashUpdate } from "../models/myListItem";
+import UserModel from "../models/user";
+import MovieModel from "../models/movie";
+import EpisodeModel from "../models/episode";
+import { Types } from "mongoose";
+import { HttpError } from "../utils/httpError";
+import logger from "../utils/logger";
+import { bumpLists, uniqueLists } from "./catalog.sync";
+import { itemEvent, recordEvents, SYSTEM_ACTOR } from "./activity.service";
+import { withSeq } from "./sync.service";
+import { bumpProgressVersion } from "./myList.cache";
+
+// share of the runtime after which a movie/episode counts as watched
+const WATCHED_RATIO = 0.95;
+
+export type ProgressPayload = {
+  contentType: "movie" | "tvshow";
+  episodeId?: string; // required for shows
+  positionSeconds: number;
+  completed?: boolean; // defaults to positionSeconds >= 95% of the runtime
+};
+
+// progress as attached to list items and returned by the progress routes
+export type ProgressView = {
+  episodeId: Types.ObjectId | null;
+  positionSeconds: number;
+  durationSeconds: number | null;
+  percent: number | null;
+  completed: boolean;
+  updatedAt: Date;
+};
+
+const INVALID_ID_CODES = {
+  userId: "INVALID_USER_ID",
+  contentId: "INVALID_CONTENT_ID",
+  episodeId: "INVALID_EPISODE_ID",
+} as const;
+
+function toOid(id: string, field: keyof typeof INVALID_ID_CODES) {
+  if (!Types.ObjectId.isValid(id)) {
+    throw new HttpError(400, `invalid ${field}`, INVALID_ID_CODES[field]);
+  }
+  return new Types.ObjectId(id);
+}
+
+export function toProgressView(doc: any): ProgressView {
+  const duration = doc.durationSeconds || null;
+  return {
+    episodeId: doc.episodeId ?? null,
+    positionSeconds: doc.positionSeconds,
+    durationSeconds: duration,
+    percent: duration
+      ? Math.min(100, Math.round((doc.positionSeconds / duration) * 100))
+      : null,
+    completed: doc.completed,
+    updatedAt: doc.updatedAt,
+  };
+}
+
+/** runtime in seconds of the movie or episode progress is reported for */
+async function runtimeOf(
+  contentOid: Types.ObjectId,
+  payload: ProgressPayload,
+): Promise<number | undefined> {
+  if (payload.contentType === "movie") {
+    if (payload.episodeId) {
+      throw new HttpError(
+        400,
+        "episodeId provided for movie contentType",
+        "INVALID_PAYLOAD",
+      );
+    }
+    const movie = await MovieModel.findById(contentOid, {
+      durationMinutes: 1,
+    }).lean();
+    if (!movie) {
+      throw new HttpError(404, "movie not found", "CONTENT_NOT_FOUND");
+    }
+    return movie.durationMinutes ? movie.durationMinutes * 60 : undefined;
+  }
+
+  // shows are watched episode by episode
+  if (!payload.episodeId) {
+    throw new HttpError(
+      400,
+      "episodeId is required for tvshow progress",
+      "INVALID_PAYLOAD",
+    );
+  }
+  const episode = await EpisodeModel.findById(
+    toOid(payload.episodeId, "episodeId"),
+    { showId: 1, durationMinutes: 1 },
+  ).lean();
+  if (!episode) {
+    throw new HttpError(404, "episode not found", "EPISODE_NOT_FOUND");
+  }
+  if (episode.showId?.toString() !== contentOid.toString()) {
+    throw new HttpError(
+      400,
+      "episode does not belong to provided tv show",
+      "EPISODE_MISMATCH",
+    );
+  }
+  return episode.durationMinutes ? episode.durationMinutes * 60 : undefined;
+}
+
+/**
+ * Record the playback position of a movie or episode. Once watched, a movie
+ * is removed from all of the user's lists if preferences.autoRemoveWatched
+ * is set. Returns the progress and the number of list items removed.
+ */
+export async function reportProgress(
+  userId: string,
+  contentId: string,
+  payload: ProgressPayload,
+) {
+  const userOid = toOid(userId, "userId");
+  const contentOid = toOid(contentId, "contentId");
+  const user = await UserModel.findById(userOid, { preferences: 1 }).lean();
+  if (!user) throw new HttpError(404, "user not found", "USER_NOT_FOUND");
+
+  const durationSeconds = await runtimeOf(contentOid, payload);
+  const key = {
+    userId: userOid,
+    contentId: contentOid,
+    episodeId: payload.episodeId ? new Types.ObjectId(payload.episodeId) : null,
+  };
+  const previous = await WatchProgressModel.findOne(key).lean();
+  const reachedEnd =
+    durationSeconds !== undefined &&
+    payload.positionSeconds >= durationSeconds * WATCHED_RATIO;
+  // watched stays watched when rewinding, unless the client says otherwise
+  const completed =
+    payload.completed ?? (Boolean(previous?.completed) || reachedEnd);
+
+  const progress = await WatchProgressModel.findOneAndUpdate(
+    key,
+    {
+      $set: {
+        contentType: payload.contentType,
+        positionSeconds: payload.positionSeconds,
+        durationSeconds,
+        completed,
+      },
+    },
+    { upsert: true, new: true },
+  ).lean();
+  // list pages show watch state: their ETags change with it
+  await bumpProgressVersion(userId);
+
+  let removedFromLists = 0;
+  if (
+    completed &&
+    !previous?.completed &&
+    payload.contentType === "movie" &&
+    user.preferences?.autoRemoveWatched
+  ) {
+    removedFromLists = await removeWatchedMovie(userOid, contentOid);
+  }
+  return { progress: toProgressView(progress), removedFromLists };
+}
+
+/** move a watched movie to the trash of every list of the user */
+async function removeWatchedMovie(
+  userOid: Types.ObjectId,
+  contentOid: Types.ObjectId,
+) {
+  try {
+    const items = await MyListItemModel.find({
+      userId: userOid,
+      contentId: contentOid,
+      deletedAt: null,
+    }).lean();
+    if (!items.length) return 0;
+    const res = await withSeq(userOid, (seq) =>
+      MyListItemModel.updateMany(
+        { _id: { $in: items.map((item) => item._id) } },
+        { $set: { ...trashUpdate(), seq } },
+      ),
+    );
+    await bumpLists(uniqueLists(items));
+    await recordEvents(
+      items.map((item) =>
+        itemEvent(item, "remove", "autoRemoveWatched", SYSTEM_ACTOR),
+      ),
+    );
+    return res.modifiedCount;
+  } catch (err) {
+    // the progress is saved; the movie just stays in the list
+    logger.error("auto-remove of watched movie failed", err);
+    return 0;
+  }
+}
+
+/** progress of a movie, or of one episode of a show */
+export async function getProgress(
+  userId: string,
+  contentId: string,
+  episodeId?: string,
+) {
+  const progress = await WatchProgressModel.findOne({
+    userId: toOid(userId, "userId"),
+    contentId: toOid(contentId, "contentId"),
+    episodeId: episodeId ? toOid(episodeId, "episodeId") : null,
+  }).lean();
+  return progress ? toProgressView(progress) : null;
+}
+
+export async function setAutoRemoveWatched(userId: string, enabled: boolean) {
+  const user = await UserModel.findByIdAndUpdate(
+    toOid(userId, "userId"),
+    { $set: { "preferences.autoRemoveWatched": enabled } },
+    { new: true },
+  ).lean();
+  if (!user) throw new HttpError(404, "user not found", "USER_NOT_FOUND");
+  return { autoRemoveWatched: Boolean(user.preferences?.autoRemoveWatched) };
+}
+
+/**
+ * Set `progress` on list items (or groupBy=show entries) with one query.
+ * Movies and saved episodes get their own progress; a show-level save gets
+ * the progress of the most recently watched episode. Applied after the page
+ * cache so positions are never stale.
+ */
+export async function annotateWithProgress(userId: string, entries: any[]) {
+  if (!entries.length) return;
+  const rows = await WatchProgressModel.find({
+    userId: new Types.ObjectId(userId),
+    contentId: { $in: entries.map((e) => e.contentId) },
+  })
+    .sort({ updatedAt: -1 })
+    .lean();
+
+  const exact = new Map<string, any>();
+  const latestOfShow = new Map<string, any>();
+  for (const row of rows) {
+    exact.set(`${row.contentId}:${row.episodeId ?? ""}`, row);
+    // rows are newest first
+    if (!latestOfShow.has(`${row.contentId}`)) {
+      latestOfShow.set(`${row.contentId}`, row);
+    }
+  }
+
+  for (const entry of entries) {
+    const row =
+      entry.contentType === "tvshow" && !entry.episodeId
+        ? latestOfShow.get(`${entry.contentId}`)
+        : exact.get(`${entry.contentId}:${entry.episodeId ?? ""}`);
+    entry.progress = row ? toProgressView(row) : null;
+  }
+}
@@ -0,0 +1,231 @@
+import MyListItemModel from "../models/myListItem";
+import UserModel from "../models/user";
+import MovieModel from "../models/movie";
+import TVShowModel from "../models/tvShow";
+import { Types } from "mongoose";
+import { createHash } from "crypto";
+import { cache, readVersion, userListsVersionKey } from "./myList.cache";
+import logger from "../utils/logger";
+import { HttpError } from "../utils/httpError";
+
+const RECS_TTL_SECONDS = Number(
+  process.env.RECOMMENDATIONS_CACHE_TTL_SECONDS ?? 300,
+);
+const MAX_LIMIT = Number(process.env.MYLIST_MAX_LIMIT ?? 100);
+const DEFAULT_LIMIT = Number(process.env.MYLIST_DEFAULT_LIMIT ?? 20);
+
+// genre weights: the genre saved most often weighs LIST_WEIGHT, the others
+// proportionally less; favorites add FAVORITE_WEIGHT, disliked genres are
+// set to -DISLIKED_PENALTY whatever else applies
+const LIST_WEIGHT = 5;
+const FAVORITE_WEIGHT = 3;
+const DISLIKED_PENALTY = 5;
+
+// catalog fields returned for a recommendation
+const CANDIDATE_FIELDS = {
+  title: 1,
+  posterUrl: 1,
+  genres: 1,
+  description: 1,
+  releaseDate: 1,
+  durationMinutes: 1,
+};
+
+export type RecommendationOptions = {
+  limit?: number;
+  cursor?: string; // base64 encoded "rec|<score>|_id"
+};
+
+type GenreWeight = { genre: string; weight: number };
+
+/** genre counts over the distinct titles saved in any of the user's lists */
+async function savedGenreCounts(userOid: Types.ObjectId) {
+  const rows = await MyListItemModel.aggregate([
+    { $match: { userId: userOid, deletedAt: null } },
+    // a title saved in several lists (or as several episodes) counts once
+    { $group: { _id: "$contentId", genres: { $first: "$snapshot.genres" } } },
+    { $unwind: "$genres" },
+    { $group: { _id: "$genres", count: { $sum: 1 } } },
+  ]).exec();
+  return new Map<string, number>(rows.map((r) => [r._id, r.count]));
+}
+
+/** weight of every genre that counts towards (or against) a recommendation */
+function genreWeights(
+  counts: Map<string, number>,
+  favorites: string[],
+  disliked: string[],
+): GenreWeight[] {
+  const max = Math.max(0, ...counts.values());
+  const weights = new Map<string, number>();
+  for (const [genre, count] of counts) {
+    weights.set(genre, (count / max) * LIST_WEIGHT);
+  }
+  for (const genre of favorites) {
+    weights.set(genre, (weights.get(genre) ?? 0) + FAVORITE_WEIGHT);
+  }
+  for (const genre of disliked) weights.set(genre, -DISLIKED_PENALTY);
+  // rounded so scores survive the cursor round trip unchanged
+  return [...weights].map(([genre, weight]) => ({
+    genre,
+    weight: Math.round(weight * 1000) / 1000,
+  }));
+}
+
+/** mongo expression summing the weights of a catalog doc's genres */
+function scoreExpr(weights: GenreWeight[]) {
+  return {
+    $reduce: {
+      input: { $literal: weights },
+      initialValue: 0,
+      in: {
+        $add: [
+          "$$value",
+          {
+            $cond: [
+              { $in: ["$$this.genre", { $ifNull: ["$genres", []] }] },
+              "$$this.weight",
+              0,
+            ],
+          },
+        ],
+      },
+    },
+  };
+}
+
+function decodeCursorSafe(cursor: string) {
+  try {
+    const raw = Buffer.from(cursor, "base64").toString("utf8");
+    const [mode, scoreStr, idStr] = raw.split("|");
+    if (mode !== "rec" || !scoreStr || !idStr) {
+      throw new Error("invalid cursor format");
+    }
+    const score = Number(scoreStr);
+    if (!Number.isFinite(score)) throw new Error("invalid cursor score");
+    if (!Types.ObjectId.isValid(idStr)) throw new Error("invalid cursor id");
+    return { score, id: new Types.ObjectId(idStr) };
+  } catch (err) {
+    logger.error("cursor decode error:", err);
+    throw new HttpError(400, "Invalid cursor", "INVALID_CURSOR");
+  }
+}
+
+/**
+ * Movies and shows the user has not saved, ranked by genre overlap with the
+ * titles in their lists and their favorite genres; disliked genres count
+ * against a title. Only titles with a positive score are returned.
+ * Pages are cached per user-wide lists version and preferences.
+ * Returns { items, nextCursor }.
+ */
+export async function getRecommendations(
+  userId: string,
+  opts: RecommendationOptions = {},
+) {
+  const limit = Math.min(opts.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
+  if (!Types.ObjectId.isValid(userId)) {
+    throw new HttpError(400, "invalid userId", "INVALID_USER_ID");
+  }
+  const userOid = new Types.ObjectId(userId);
+  const user = await UserModel.findById(userOid, { preferences: 1 }).lean();
+  if (!user) throw new HttpError(404, "user not found", "USER_NOT_FOUND");
+  const favorites = [...(user.preferences?.favoriteGenres ?? [])].sort();
+  const disliked = [...(user.preferences?.dislikedGenres ?? [])].sort();
+  const after = opts.cursor ? decodeCursorSafe(opts.cursor) : null;
+
+  const version = await readVersion(userListsVersionKey(userId));
+  // preferences have no version of their own, they are part of the key
+  const prefs = createHash("sha1")
+    .update(JSON.stringify([favorites, disliked]))
+    .digest("hex")
+    .slice(0, 12);
+  // no version (cache unavailable): compute the page, cache nothing
+  const cacheKey =
+    version !== null &&
+    `recs:${userId}:v${version}:p${prefs}:limit${limit}:cursor${opts.cursor ?? "start"}`;
+  try {
+    const cached = cacheKey && (await cache.get(cacheKey));
+    if (cached) return JSON.parse(cached);
+  } catch (err) {
+    logger.error("cache get failed", err);
+  }
+
+  const [counts, savedIds] = await Promise.all([
+    savedGenreCounts(userOid),
+    MyListItemModel.distinct("contentId", { userId: userOid, deletedAt: null }),
+  ]);
+  const weights = genreWeights(counts, favorites, disliked);
+  const positive = weights.filter((w) => w.weight > 0).map((w) => w.genre);
+
+  let items: any[] = [];
+  if (positive.length) {
+    const candidates = {
+      genres: { $in: positive },
+      isAvailable: { $ne: false },
+      _id: { $nin: savedIds },
+    };
+    const pipeline: any[] = [
+      { $match: candidates },
+      { $project: { ...CANDIDATE_FIELDS, contentType: { $literal: "movie" } } },
+      {
+        $unionWith: {
+          coll: TVShowModel.collection.name,
+          pipeline: [
+            { $match: candidates },
+            {
+              $project: {
+                ...CANDIDATE_FIELDS,
+                contentType: { $literal: "tvshow" },
+              },
+            },
+          ],
+        },
+      },
+      { $addFields: { score: scoreExpr(weights) } },
+      { $match: { score: { $gt: 0 } } },
+    ];
+    if (after) {
+      pipeline.push({
+        $match: {
+          $or: [
+            { score: { $lt: after.score } },
+            { score: after.score, _id: { $gt: after.id } },
+          ],
+        },
+      });
+    }
+    pipeline.push({ $sort: { score: -1, _id: 1 } }, { $limit: limit + 1 });
+    items = await MovieModel.aggregate(pipeline).exec();
+  }
+
+  let nextCursor: string | null = null;
+  if (items.length > limit) {
+    items = items.slice(0, limit);
+    const last = items[items.length - 1];
+    nextCursor = Buffer.from(`rec|${last.score}|${last._id}`).toString(
+      "base64",
+    );
+  }
+  const matching = new Set(positive);
+  const payload = {
+    items: items.map(({ _id, ...doc }) => ({
+      contentId: _id,
+      ...doc,
+      score: Math.round(doc.score * 1000) / 1000,
+      matchedGenres: (doc.genres ?? []).filter((g: string) => matching.has(g)),
+    })),
+    nextCursor,
+  };
+
+  try {
+    if (cacheKey) {
+      await cache.set(cacheKey, JSON.stringify(payload), {
+        ttlSeconds: RECS_TTL_SECONDS,
+        ifAbsent: true,
+      });
+    }
+  } catch (err) {
+    logger.error("cache set failed", err);
+  }
+  return payload;
+}
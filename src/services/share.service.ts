@@ -0,0 +1,159 @@
+import ShareLinkModel from "../models/shareLink";
+import { Types } from "mongoose";
+import { randomBytes } from "crypto";
+import { cache, shareCacheKey } from "./myList.cache";
+import { getList, resolveListId } from "./myList.service";
+import logger from "../utils/logger";
+import { HttpError } from "../utils/httpError";
+
+const SHARE_CACHE_TTL_SECONDS = Number(
+  process.env.SHARE_CACHE_TTL_SECONDS ?? 300,
+);
+// active links per list
+const MAX_SHARES_PER_LIST = 20;
+
+type ShareOwner = { userId: string; listId: string | null };
+
+function toUserOid(userId: string) {
+  if (!Types.ObjectId.isValid(userId)) {
+    throw new HttpError(400, "invalid userId", "INVALID_USER_ID");
+  }
+  return new Types.ObjectId(userId);
+}
+
+function toView(share: any) {
+  return {
+    id: share._id.toString(),
+    token: share.token,
+    path: `/api/shared/${share.token}`,
+    createdAt: share.createdAt,
+  };
+}
+
+/** drop cached owners so revoked tokens stop resolving right away */
+async function forgetTokens(tokens: string[]) {
+  if (!tokens.length) return;
+  try {
+    await cache.del(...tokens.map(shareCacheKey));
+  } catch (err) {
+    logger.error("cache del failed", err);
+  }
+}
+
+export async function createShare(userId: string, listId?: string) {
+  const userOid = toUserOid(userId);
+  const listOid = await resolveListId(userOid, listId);
+  const count = await ShareLinkModel.countDocuments({
+    userId: userOid,
+    listId: listOid,
+  });
+  if (count >= MAX_SHARES_PER_LIST) {
+    throw new HttpError(
+      409,
+      `at most ${MAX_SHARES_PER_LIST} share links per list`,
+      "SHARE_LIMIT",
+    );
+  }
+  const share = await ShareLinkModel.create({
+    token: randomBytes(24).toString("base64url"),
+    userId: userOid,
+    listId: listOid,
+  });
+  return toView(share);
+}
+
+export async function getShares(userId: string, listId?: string) {
+  const userOid = toUserOid(userId);
+  const listOid = await resolveListId(userOid, listId);
+  const shares = await ShareLinkModel.find({ userId: userOid, listId: listOid })
+    .sort({ createdAt: -1 })
+    .lean();
+  return shares.map(toView);
+}
+
+/** Revoke one share link of a list; returns null when there is none. */
+export async function revokeShare(
+  userId: string,
+  shareId: string,
+  listId?: string,
+) {
+  const userOid = toUserOid(userId);
+  const listOid = await resolveListId(userOid, listId);
+  if (!Types.ObjectId.isValid(shareId)) {
+    throw new HttpError(400, "invalid shareId", "INVALID_SHARE_ID");
+  }
+  const share = await ShareLinkModel.findOneAndDelete({
+    _id: new Types.ObjectId(shareId),
+    userId: userOid,
+    listId: listOid,
+  }).lean();
+  if (!share) return null;
+  await forgetTokens([share.token]);
+  return share;
+}
+
+/** Revoke every share link of a list (used when the list is deleted). */
+export async function revokeListShares(
+  userOid: Types.ObjectId,
+  listOid: Types.ObjectId | null,
+) {
+  const filter = { userId: userOid, listId: listOid };
+  const tokens = await ShareLinkModel.distinct("token", filter);
+  if (!tokens.length) return;
+  await ShareLinkModel.deleteMany(filter);
+  await forgetTokens(tokens);
+}
+
+/** owner of a share token, cached; unknown tokens are not cached */
+async function resolveShare(token: string): Promise<ShareOwner> {
+  const key = shareCacheKey(token);
+  try {
+    const cached = await cache.get(key);
+    if (cached) return JSON.parse(cached);
+  } catch (err) {
+    logger.error("cache get failed", err);
+  }
+
+  const share = await ShareLinkModel.findOne({ token }).lean();
+  if (!share) throw new HttpError(404, "share not found", "SHARE_NOT_FOUND");
+  const owner: ShareOwner = {
+    userId: share.userId.toString(),
+    listId: share.listId?.toString() ?? null,
+  };
+  try {
+    await cache.set(key, JSON.stringify(owner), {
+      ttlSeconds: SHARE_CACHE_TTL_SECONDS,
+    });
+  } catch (err) {
+    logger.error("cache set failed", err);
+  }
+  return owner;
+}
+
+/**
+ * A page of a shared list for anonymous readers. Served from the list's page
+ * cache like the owner's view, but without the owner's watch state and
+ * reduced to snapshot data: no user, list or item ids.
+ */
+export async function getSharedList(
+  token: string,
+  opts: { limit?: number; cursor?: string },
+) {
+  const owner = await resolveShare(token);
+  const page = await getList(owner.userId, {
+    ...opts,
+    listId: owner.listId ?? undefined,
+    watchState: false,
+  });
+  return {
+    items: page.items.map((item: any) => ({
+      contentType: item.contentType,
+      contentId: item.contentId,
+      episodeId: item.episodeId,
+      snapshot: item.snapshot,
+      contentVisibility: item.contentVisibility,
+      addedAt: item.addedAt,
+    })),
+    nextCursor: page.nextCursor,
+  };
+}
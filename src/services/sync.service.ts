@@ -0,0 +1,127 @@
+import { Types } from "mongoose";
+import SyncCounterModel from "../models/syncCounter";
+import logger from "../utils/logger";
+
+// Hands out the per-user change seqs that delta sync (getChanges in
+// myList.service) reads from MyListItem.seq. Imported by myList.service,
+// catalog.sync and progress.service, so it must not import any of them.
+//
+// A seq is taken before the items are written, so a reader can see a seq
+// whose items are not in Mongo yet. Seqs therefore stay pending until their
+// writer releases them, and settledSeq stops below the oldest pending one.
+
+// how many counters are bumped concurrently for writes spanning many users
+const SEQ_CONCURRENCY = 50;
+// a pending seq whose writer died without releasing it stops holding back
+// delta sync after this long
+const PENDING_SEQ_TTL_MS = 30_000;
+
+// pending seqs that have not expired, evaluated on the database clock
+const livePending = {
+  $filter: {
+    input: { $ifNull: ["$pending", []] },
+    cond: {
+      $gt: ["$$this.at", { $subtract: ["$$NOW", PENDING_SEQ_TTL_MS] }],
+    },
+  },
+};
+
+/**
+ * next change seq of a user, starting at 1; pending until releaseSeq.
+ * Prefer withSeq, which releases it once the write is done.
+ */
+export async function nextSeq(userOid: Types.ObjectId) {
+  // one pipeline update, so the seq is never visible without being pending
+  const counter = await SyncCounterModel.findOneAndUpdate(
+    { userId: userOid },
+    [
+      { $set: { seq: { $add: [{ $ifNull: ["$seq", 0] }, 1] } } },
+      {
+        $set: {
+          pending: {
+            $concatArrays: [livePending, [{ seq: "$seq", at: "$$NOW" }]],
+          },
+        },
+      },
+    ],
+    { upsert: true, new: true, projection: { seq: 1 }, updatePipeline: true },
+  ).lean();
+  return counter!.seq;
+}
+
+/** marks a seq as written (or abandoned); failures are logged */
+export async function releaseSeq(userOid: Types.ObjectId, seq: number) {
+  try {
+    await SyncCounterModel.updateOne(
+      { userId: userOid },
+      { $pull: { pending: { seq } } },
+    );
+  } catch (err) {
+    // it expires from pending after PENDING_SEQ_TTL_MS
+    logger.error("change seq release failed", err);
+  }
+}
+
+/** runs a write stamped with the next seq of a user, then releases the seq */
+export async function withSeq<T>(
+  userOid: Types.ObjectId,
+  write: (seq: number) => Promise<T>,
+) {
+  const seq = await nextSeq(userOid);
+  try {
+    return await write(seq);
+  } finally {
+    await releaseSeq(userOid, seq);
+  }
+}
+
+/** next change seq of every given user, keyed by user id */
+export async function nextSeqs(userOids: Types.ObjectId[]) {
+  const users = [...new Map(userOids.map((id) => [id.toString(), id]))];
+  const seqs = new Map<string, number>();
+  for (let i = 0; i < users.length; i += SEQ_CONCURRENCY) {
+    await Promise.all(
+      users
+        .slice(i, i + SEQ_CONCURRENCY)
+        .map(async ([key, id]) => seqs.set(key, await nextSeq(id))),
+    );
+  }
+  return seqs;
+}
+
+/** runs a write stamped with the next seq of every given user, see withSeq */
+export async function withSeqs<T>(
+  userOids: Types.ObjectId[],
+  write: (seqs: Map<string, number>) => Promise<T>,
+) {
+  const seqs = await nextSeqs(userOids);
+  try {
+    return await write(seqs);
+  } finally {
+    const released = [...seqs];
+    for (let i = 0; i < released.length; i += SEQ_CONCURRENCY) {
+      await Promise.all(
+        released
+          .slice(i, i + SEQ_CONCURRENCY)
+          .map(([key, seq]) => releaseSeq(new Types.ObjectId(key), seq)),
+      );
+    }
+  }
+}
+
+/**
+ * Highest seq of a user up to which every write has settled (0 before their
+ * first change). Items stamped with a higher seq may still be missing.
+ */
+export async function settledSeq(userOid: Types.ObjectId) {
+  const [counter] = await SyncCounterModel.aggregate<{
+    seq: number;
+    pending: { seq: number }[];
+  }>([
+    { $match: { userId: userOid } },
+    { $project: { seq: 1, pending: livePending } },
+  ]);
+  if (!counter) return 0;
+  if (!counter.pending.length) return counter.seq;
+  return Math.min(...counter.pending.map((p) => p.seq)) - 1;
+}
@@ -0,0 +1,15 @@
+// Authenticated caller, set on the request by the requireUser middleware.
+export interface AuthUser {
+  id: string;
+  // scopes granted by the token ("scope" claim); empty in header mode
+  scopes: string[];
+  authMethod: "jwt" | "header";
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
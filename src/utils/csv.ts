@@ -0,0 +1,55 @@
+// Minimal RFC 4180 CSV helpers for list export/import.
+
+// spreadsheets evaluate cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * one CSV line (with trailing CRLF); fields are quoted when needed, and
+ * fields that would start a formula get a leading ' (titles come from clients)
+ */
+export function csvLine(values: unknown[]) {
+  return (
+    values
+      .map((v) => {
+        let s = v === undefined || v === null ? "" : String(v);
+        if (FORMULA_START.test(s)) s = `'${s}`;
+        return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+      })
+      .join(",") + "\r\n"
+  );
+}
+
+/** parse CSV text into rows of fields; blank lines are skipped */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c !== '"') field += c;
+      else if (text[i + 1] === '"') field += text[++i];
+      else quoted = false;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n") {
+      endRow();
+    } else if (c !== "\r") {
+      field += c;
+    }
+  }
+  if (quoted) throw new Error("unterminated quoted field");
+  endRow();
+  return rows;
+}
@@ -0,0 +1,109 @@
+import { createHmac, timingSafeEqual, verify } from "crypto";
+import { AuthConfig } from "../config/auth";
+
+export interface JwtClaims {
+  sub?: string;
+  exp?: number;
+  nbf?: number;
+  aud?: string | string[];
+  iss?: string;
+  scope?: string;
+  [claim: string]: unknown;
+}
+
+export class JwtError extends Error {
+  expired: boolean;
+  constructor(message: string, expired: boolean = false) {
+    super(message);
+    this.expired = expired;
+  }
+}
+
+function decodeSegment(segment: string) {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  } catch {
+    throw new JwtError("malformed token");
+  }
+  // header and payload must be JSON objects ("null", numbers, arrays are not)
+  if (!decoded || typeof decoded !== "object" || Array.isArray(decoded)) {
+    throw new JwtError("malformed token");
+  }
+  return decoded as Record<string, unknown>;
+}
+
+function verifySignature(
+  alg: string,
+  kid: string | undefined,
+  signingInput: string,
+  signature: Buffer,
+  config: AuthConfig,
+) {
+  // only accept algorithms we hold a key for (no "none", no alg confusion)
+  if (alg === "HS256" && config.hsSecret) {
+    const expected = createHmac("sha256", config.hsSecret)
+      .update(signingInput)
+      .digest();
+    return (
+      expected.length === signature.length &&
+      timingSafeEqual(expected, signature)
+    );
+  }
+  if (alg === "RS256" && config.rsaKeys.size) {
+    const key =
+      config.rsaKeys.get(kid ?? "") ??
+      (config.rsaKeys.size === 1 && !kid
+        ? [...config.rsaKeys.values()][0]
+        : undefined);
+    if (!key) throw new JwtError("unknown signing key");
+    return verify("RSA-SHA256", Buffer.from(signingInput), key, signature);
+  }
+  throw new JwtError(`unsupported token algorithm ${alg}`);
+}
+
+/**
+ * Verifies a compact JWS (HS256 or RS256) and its time/audience/issuer claims.
+ * Returns the claims or throws JwtError.
+ */
+export function verifyJwt(
+  token: string,
+  config: AuthConfig,
+  now: number = Date.now(),
+): JwtClaims {
+  const parts = token.split(".");
+  if (parts.length !== 3) throw new JwtError("malformed token");
+  const [headerSeg, payloadSeg, signatureSeg] = parts;
+
+  const header = decodeSegment(headerSeg);
+  const valid = verifySignature(
+    String(header.alg),
+    typeof header.kid === "string" ? header.kid : undefined,
+    `${headerSeg}.${payloadSeg}`,
+    Buffer.from(signatureSeg, "base64url"),
+    config,
+  );
+  if (!valid) throw new JwtError("invalid token signature");
+
+  const claims: JwtClaims = decodeSegment(payloadSeg);
+  const nowSeconds = Math.floor(now / 1000);
+  const tolerance = config.clockToleranceSeconds;
+  if (typeof claims.exp !== "number") throw new JwtError("token has no expiry");
+  if (nowSeconds - tolerance >= claims.exp) {
+    throw new JwtError("token expired", true);
+  }
+  if (typeof claims.nbf === "number" && nowSeconds + tolerance < claims.nbf) {
+    throw new JwtError("token not yet valid");
+  }
+  if (config.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(config.audience)) {
+      throw new JwtError("token audience mismatch");
+    }
+  }
+  if (config.issuer && claims.iss !== config.issuer) {
+    throw new JwtError("token issuer mismatch");
+  }
+  if (!claims.sub) throw new JwtError("token has no subject");
+  return claims;
+}
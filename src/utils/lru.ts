@@ -0,0 +1,47 @@
+// Bounded in-process map with least-recently-used eviction and per-entry
+// expiry. A Map keeps insertion order, so re-inserting an entry on every read
+// keeps the least recently used one first in line for eviction.
+
+export class LruCache<V> {
+  private entries = new Map<string, { value: V; expiresAt: number }>();
+
+  constructor(private maxEntries: number) {}
+
+  get size() {
+    return this.entries.size;
+  }
+
+  get(key: string, now = Date.now()): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expiresAt <= now) return undefined;
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /** stores a value; ttlMs of Infinity keeps it until evicted */
+  set(key: string, value: V, ttlMs = Infinity, now = Date.now()) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: now + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /** remaining lifetime in ms of a live entry, undefined when missing */
+  ttl(key: string, now = Date.now()) {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= now) return undefined;
+    return entry.expiresAt - now;
+  }
+
+  delete(key: string) {
+    return this.entries.delete(key);
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,125 @@
+// Counters and histograms rendered in the Prometheus text format by
+// GET /metrics. Metrics register themselves when created; each module
+// declares the ones it records. Values live in the process: every instance
+// is scraped on its own.
+
+type Labels = Record<string, string | number>;
+
+interface Metric {
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+// request and query durations, in seconds
+export const DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/** label set as written after the metric name, e.g. {route="/",status="200"} */
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function header(name: string, help: string, type: string) {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+export class Counter {
+  private values = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {
+    registry.push(this);
+  }
+
+  inc(labels: Labels = {}, by = 1) {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + by);
+  }
+
+  render() {
+    return [
+      ...header(this.name, this.help, "counter"),
+      ...[...this.values].map(([key, value]) => `${this.name}${key} ${value}`),
+    ];
+  }
+}
+
+export class Histogram {
+  private series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly buckets: number[],
+  ) {
+    registry.push(this);
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    // buckets are cumulative: a value counts in every bucket it fits
+    this.buckets.forEach((le, i) => {
+      if (value <= le) series.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /** starts a timer; calling the result observes the seconds elapsed */
+  startTimer(labels: Labels = {}) {
+    const start = process.hrtime.bigint();
+    return (more: Labels = {}) =>
+      this.observe(
+        { ...labels, ...more },
+        Number(process.hrtime.bigint() - start) / 1e9,
+      );
+  }
+
+  /** runs `fn` and observes how long it took, failures included */
+  async time<T>(labels: Labels, fn: () => Promise<T>) {
+    const end = this.startTimer(labels);
+    try {
+      return await fn();
+    } finally {
+      end();
+    }
+  }
+
+  render() {
+    const lines = header(this.name, this.help, "histogram");
+    for (const [key, { labels, counts, sum, count }] of this.series) {
+      this.buckets.forEach((le, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le })} ${counts[i]}`,
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${this.name}_sum${key} ${sum}`,
+        `${this.name}_count${key} ${count}`,
+      );
+    }
+    return lines;
+  }
+}
+
+/** every registered metric in the Prometheus text exposition format */
+export function renderMetrics() {
+  return registry.flatMap((metric) => metric.render()).join("\n") + "\n";
+}
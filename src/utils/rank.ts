@@ -0,0 +1,75 @@
+// Fractional ranks for manually ordered lists.
+// A rank is a base-62 string compared lexicographically (plain byte order, which
+// is also how MongoDB sorts strings without a collation). A new rank can always
+// be generated strictly between two existing ones, so moving an item only
+// rewrites that single item instead of renumbering the whole list.
+
+const DIGITS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const BASE = DIGITS.length;
+
+/** midpoint of two digit strings; `a` may be "" and `b` null (= +infinity) */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // skip the common prefix, the midpoint only differs after it
+    let n = 0;
+    while ((a[n] ?? "0") === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : BASE;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  // first digits are consecutive
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+function isValidRank(rank: string) {
+  return (
+    rank.length > 0 &&
+    !rank.endsWith("0") &&
+    [...rank].every((c) => DIGITS.includes(c))
+  );
+}
+
+/**
+ * Returns a rank strictly between `before` and `after`.
+ * Pass null/undefined for an open end (start or end of the list).
+ */
+export function rankBetween(
+  before?: string | null,
+  after?: string | null,
+): string {
+  if (before && !isValidRank(before)) throw new Error(`invalid rank ${before}`);
+  if (after && !isValidRank(after)) throw new Error(`invalid rank ${after}`);
+  if (before && after && before >= after) {
+    throw new Error(`rank ${before} is not lower than ${after}`);
+  }
+  return midpoint(before ?? "", after ?? null);
+}
+
+/**
+ * Generates `count` evenly spaced, ascending ranks of equal width.
+ * Used to rank a batch of items at once (e.g. legacy items without a rank).
+ */
+export function spreadRanks(count: number): string[] {
+  if (count <= 0) return [];
+  let width = 1;
+  // keep the gap between ranks > 4 so nudging a trailing zero never collides
+  while (Math.pow(BASE, width) <= (count + 1) * 4) width++;
+  const step = Math.pow(BASE, width) / (count + 1);
+
+  const ranks: string[] = [];
+  for (let i = 1; i <= count; i++) {
+    let value = Math.floor(step * i);
+    if (value % BASE === 0) value += 1; // ranks must not end with "0"
+    let rank = "";
+    for (let w = 0; w < width; w++) {
+      rank = DIGITS[value % BASE] + rank;
+      value = Math.floor(value / BASE);
+    }
+    ranks.push(rank);
+  }
+  return ranks;
+}
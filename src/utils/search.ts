@@ -0,0 +1,30 @@
+// Title search over list items: titles are stored as lowercase, accent-free
+// word tokens (MyListItem.searchTokens) and queries match token prefixes.
+
+/** distinct search tokens of a text: "Amélie (2001)" -> ["amelie", "2001"] */
+export function searchTokens(text?: string | null): string[] {
+  if (!text) return [];
+  const words = text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  return [...new Set(words)];
+}
+
+/** escape a string for literal use inside a RegExp */
+export function escapeRegex(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * mongo condition matching items whose title has a word starting with each
+ * query token ("dark kni" matches "The Dark Knight"). Anchored regexes can use
+ * the searchTokens index.
+ */
+export function titleQuery(tokens: string[]) {
+  return {
+    $all: tokens.map((t) => new RegExp(`^${escapeRegex(t)}`)),
+  };
+}
@@ -0,0 +1,25 @@
+import { createHmac, sign, KeyObject } from "crypto";
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+/** Sign a JWT for tests; HS256 with the test secret unless a key is given. */
+export function signToken(
+  claims: Record<string, unknown>,
+  options: { key?: KeyObject; kid?: string; secret?: string } = {},
+) {
+  const alg = options.key ? "RS256" : "HS256";
+  const header = { alg, typ: "JWT", ...(options.kid && { kid: options.kid }) };
+  const body = {
+    aud: "stage-mylist",
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    ...claims,
+  };
+  const input = `${encode(header)}.${encode(body)}`;
+  const signature = options.key
+    ? sign("RSA-SHA256", Buffer.from(input), options.key)
+    : createHmac("sha256", options.secret ?? "test-secret")
+        .update(input)
+        .digest();
+  return `${input}.${signature.toString("base64url")}`;
+}
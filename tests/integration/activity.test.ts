@@ -0,0 +1,152 @@
+/**
+ * tests/integration/activity.test.ts
+ *
+ * Integration tests for the list activity log (GET /api/mylist/activity).
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import ListEventModel, {
+  ACTIVITY_RETENTION_DAYS,
+} from "../../src/models/listEvent";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const user = await UserModel.create({ username: "audited" });
+  const [first, second] = await MovieModel.create([
+    { title: "First", durationMinutes: 100 },
+    { title: "Second" },
+  ]);
+  const userId = user._id.toString();
+  for (const movie of [first, second]) {
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", userId)
+      .set("X-Client", "ios/5.2")
+      .send({
+        contentType: "movie",
+        contentId: movie._id.toString(),
+        snapshot: { title: movie.title },
+      })
+      .expect(201);
+  }
+  return { userId, first, second };
+}
+
+function activity(userId: string, query = "") {
+  return request(app)
+    .get(`/api/mylist/activity${query}`)
+    .set("X-User-Id", userId)
+    .expect(200);
+}
+
+describe("activity log", () => {
+  test("records adds, reorders, removes and restores newest first", async () => {
+    const { userId, first, second } = await seedAll();
+    await request(app)
+      .patch(`/api/mylist/${first._id}/position`)
+      .set("X-User-Id", userId)
+      .send({ before: second._id.toString() })
+      .expect(200);
+    await request(app)
+      .delete(`/api/mylist/${second._id}`)
+      .set("X-User-Id", userId)
+      .set("X-Client", "web/1.0")
+      .expect(200);
+    await request(app)
+      .post(`/api/mylist/${second._id}/restore`)
+      .set("X-User-Id", userId)
+      .expect(200);
+
+    const res = await activity(userId);
+    expect(res.body.items.map((e: any) => e.action)).toEqual([
+      "restore",
+      "remove",
+      "reorder",
+      "add",
+      "add",
+    ]);
+    const removed = res.body.items[1];
+    expect(removed).toMatchObject({
+      contentId: second._id.toString(),
+      title: "Second",
+      actor: userId,
+      source: "web/1.0",
+    });
+    expect(res.body.items[4].source).toBe("ios/5.2");
+  });
+
+  test("automatic removals are recorded with the system actor", async () => {
+    const { userId, first } = await seedAll();
+    await request(app)
+      .patch("/api/progress/settings")
+      .set("X-User-Id", userId)
+      .send({ autoRemoveWatched: true })
+      .expect(200);
+    await request(app)
+      .put(`/api/progress/${first._id}`)
+      .set("X-User-Id", userId)
+      .send({ contentType: "movie", positionSeconds: 6000 })
+      .expect(200);
+
+    const res = await activity(userId);
+    expect(res.body.items[0]).toMatchObject({
+      action: "remove",
+      contentId: first._id.toString(),
+      actor: "system",
+      source: "autoRemoveWatched",
+    });
+  });
+
+  test("paginates with a cursor", async () => {
+    const { userId } = await seedAll();
+
+    const page = await activity(userId, "?limit=1");
+    expect(page.body.items).toHaveLength(1);
+    const next = await activity(
+      userId,
+      `?limit=1&cursor=${encodeURIComponent(page.body.nextCursor)}`,
+    );
+    expect(next.body.items).toHaveLength(1);
+    expect(next.body.items[0]._id).not.toBe(page.body.items[0]._id);
+    expect(next.body.nextCursor).toBeNull();
+  });
+
+  test("events expire after the retention period", async () => {
+    await seedAll();
+
+    const event = await ListEventModel.findOne().lean();
+    const retention = event!.expireAt.getTime() - event!.createdAt.getTime();
+    const days = retention / (24 * 60 * 60 * 1000);
+    expect(Math.round(days)).toBe(ACTIVITY_RETENTION_DAYS);
+    expect(ListEventModel.schema.indexes()).toContainEqual([
+      { expireAt: 1 },
+      expect.objectContaining({ expireAfterSeconds: 0 }),
+    ]);
+  });
+});
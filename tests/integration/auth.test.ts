@@ -0,0 +1,151 @@
+/**
+ * tests/integration/auth.test.ts
+ *
+ * Integration tests for bearer token authentication (requireUser) and
+ * unit checks of RS256 verification.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { generateKeyPairSync } from "crypto";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+import { loadAuthConfig } from "../../src/config/auth";
+import { verifyJwt, JwtError } from "../../src/utils/jwt";
+import { signToken } from "../helpers/token";
+
+import UserModel from "../../src/models/user";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+describe("bearer token auth", () => {
+  test("accepts a valid HS256 token", async () => {
+    const user = await UserModel.create({ username: "tokenholder" });
+    const token = signToken({ sub: user._id.toString() });
+
+    const res = await request(app)
+      .get("/api/mylist")
+      .set("Authorization", `Bearer ${token}`)
+      .expect(200);
+    expect(res.body.items).toEqual([]);
+  });
+
+  test("returns 401 without credentials", async () => {
+    const res = await request(app).get("/api/mylist").expect(401);
+    expect(res.body.code).toBe("UNAUTHENTICATED");
+    expect(res.headers["www-authenticate"]).toBe("Bearer");
+  });
+
+  test("returns 401 for a bad signature", async () => {
+    const token = signToken(
+      { sub: new mongoose.Types.ObjectId().toString() },
+      { secret: "wrong-secret" },
+    );
+    const res = await request(app)
+      .get("/api/mylist")
+      .set("Authorization", `Bearer ${token}`)
+      .expect(401);
+    expect(res.body.code).toBe("INVALID_TOKEN");
+  });
+
+  test("returns 401 TOKEN_EXPIRED for an expired token", async () => {
+    const token = signToken({
+      sub: new mongoose.Types.ObjectId().toString(),
+      exp: Math.floor(Date.now() / 1000) - 3600,
+    });
+    const res = await request(app)
+      .get("/api/mylist")
+      .set("Authorization", `Bearer ${token}`)
+      .expect(401);
+    expect(res.body.code).toBe("TOKEN_EXPIRED");
+  });
+
+  test("returns 401 for a token issued to another audience", async () => {
+    const token = signToken({
+      sub: new mongoose.Types.ObjectId().toString(),
+      aud: "other-service",
+    });
+    await request(app)
+      .get("/api/mylist")
+      .set("Authorization", `Bearer ${token}`)
+      .expect(401);
+  });
+
+  test("rejects unsigned tokens", async () => {
+    const encode = (v: object) =>
+      Buffer.from(JSON.stringify(v)).toString("base64url");
+    const token = `${encode({ alg: "none" })}.${encode({
+      sub: new mongoose.Types.ObjectId().toString(),
+      aud: "stage-mylist",
+      exp: Math.floor(Date.now() / 1000) + 60,
+    })}.`;
+    await request(app)
+      .get("/api/mylist")
+      .set("Authorization", `Bearer ${token}`)
+      .expect(401);
+  });
+
+  test("returns 401 for a subject that is not a user id", async () => {
+    const token = signToken({ sub: "auth0|5f1d2c" });
+    const res = await request(app)
+      .get("/api/mylist")
+      .set("Authorization", `Bearer ${token}`)
+      .expect(401);
+    expect(res.body.code).toBe("INVALID_TOKEN");
+  });
+
+  test("returns 401 for a token whose segments are not JSON objects", async () => {
+    const res = await request(app)
+      .get("/api/mylist")
+      .set("Authorization", "Bearer bnVsbA.e30.x")
+      .expect(401);
+    expect(res.body.code).toBe("INVALID_TOKEN");
+  });
+});
+
+describe("RS256 verification", () => {
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+  });
+  const config = {
+    ...loadAuthConfig({ JWT_SECRET: "unused" }),
+    rsaKeys: new Map([["key-1", publicKey]]),
+    audience: "stage-mylist",
+    requiredScope: undefined,
+  };
+
+  test("verifies a token signed with a known key id", () => {
+    const token = signToken({ sub: "abc" }, { key: privateKey, kid: "key-1" });
+    expect(verifyJwt(token, config).sub).toBe("abc");
+  });
+
+  test("rejects an unknown key id", () => {
+    const token = signToken({ sub: "abc" }, { key: privateKey, kid: "key-2" });
+    expect(() => verifyJwt(token, config)).toThrow(JwtError);
+  });
+
+  test("refuses to enable the dev header in production", () => {
+    expect(() =>
+      loadAuthConfig({ NODE_ENV: "production", AUTH_ALLOW_DEV_HEADER: "true" }),
+    ).toThrow();
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * tests/integration/batch.test.ts
+ *
+ * Integration tests for POST /api/mylist/batch (bulk add and remove).
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import MyListItemModel from "../../src/models/myListItem";
+import TvShowModel from "../../src/models/tvShow";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const user = await UserModel.create({ username: "migrator" });
+  const [first, second] = await MovieModel.create([
+    { title: "First Movie", genres: ["Drama"] },
+    { title: "Second Movie" },
+  ]);
+  const tvshow = await TvShowModel.create({ title: "Some Show" });
+  return { user, first, second, tvshow };
+}
+
+function batch(userId: string, operations: any[]) {
+  return request(app)
+    .post("/api/mylist/batch")
+    .set("X-User-Id", userId)
+    .send({ operations });
+}
+
+describe("POST /api/mylist/batch", () => {
+  test("adds several items and reports per-item results", async () => {
+    const { user, first, second, tvshow } = await seedAll();
+    const userId = user._id.toString();
+    await batch(userId, [
+      { op: "add", contentType: "movie", contentId: first._id.toString() },
+    ]).expect(200);
+
+    const res = await batch(userId, [
+      { op: "add", contentType: "movie", contentId: first._id.toString() },
+      { op: "add", contentType: "movie", contentId: second._id.toString() },
+      {
+        op: "add",
+        contentType: "movie",
+        contentId: new mongoose.Types.ObjectId().toString(),
+      },
+      { op: "add", contentType: "tvshow", contentId: tvshow._id.toString() },
+    ]).expect(200);
+
+    expect(res.body.results.map((r: any) => r.status)).toEqual([
+      "already_present",
+      "added",
+      "not_found",
+      "added",
+    ]);
+    expect(res.body.results[2].code).toBe("CONTENT_NOT_FOUND");
+
+    const items = await MyListItemModel.find({ userId: user._id }).lean();
+    expect(items).toHaveLength(3);
+    // snapshots are built from the catalog when not sent
+    const saved = items.find((i) => i.contentId.equals(second._id));
+    expect(saved!.snapshot.title).toBe("Second Movie");
+  });
+
+  test("later operations end up on top of the list", async () => {
+    const { user, first, second } = await seedAll();
+    const userId = user._id.toString();
+    await batch(userId, [
+      { op: "add", contentType: "movie", contentId: first._id.toString() },
+      { op: "add", contentType: "movie", contentId: second._id.toString() },
+    ]).expect(200);
+
+    for (const sort of ["addedAt", "custom"]) {
+      const res = await request(app)
+        .get(`/api/mylist?sort=${sort}`)
+        .set("X-User-Id", userId)
+        .expect(200);
+      expect(res.body.items.map((i: any) => i.snapshot.title)).toEqual([
+        "Second Movie",
+        "First Movie",
+      ]);
+    }
+  });
+
+  test("removes items and reports missing ones", async () => {
+    const { user, first, second } = await seedAll();
+    const userId = user._id.toString();
+    await batch(userId, [
+      { op: "add", contentType: "movie", contentId: first._id.toString() },
+    ]).expect(200);
+
+    const res = await batch(userId, [
+      { op: "remove", contentId: first._id.toString() },
+      { op: "remove", contentId: second._id.toString() },
+    ]).expect(200);
+
+    expect(res.body.results.map((r: any) => r.status)).toEqual([
+      "removed",
+      "not_found",
+    ]);
+    // removed items go to the trash
+    expect(
+      await MyListItemModel.countDocuments({
+        userId: user._id,
+        deletedAt: null,
+      }),
+    ).toBe(0);
+  });
+
+  test("rejects an item that appears twice", async () => {
+    const { user, first } = await seedAll();
+
+    const res = await batch(user._id.toString(), [
+      { op: "add", contentType: "movie", contentId: first._id.toString() },
+      { op: "remove", contentId: first._id.toString() },
+    ]).expect(200);
+
+    expect(res.body.results[1]).toMatchObject({
+      status: "invalid",
+      code: "DUPLICATE_ITEM",
+    });
+  });
+
+  test("returns 400 for an empty or oversized batch", async () => {
+    const { user, first } = await seedAll();
+    const op = {
+      op: "add",
+      contentType: "movie",
+      contentId: first._id.toString(),
+    };
+
+    await batch(user._id.toString(), []).expect(400);
+    await batch(user._id.toString(), Array(101).fill(op)).expect(400);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * tests/integration/cache.test.ts
+ *
+ * Integration tests for the cache backends, the circuit breaker and serving
+ * the API while Redis is unreachable.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import type { Express } from "express";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import {
+  CacheUnavailableError,
+  CircuitBreakerCache,
+  MemoryCache,
+} from "../../src/services/cache.backend";
+
+// the app of this suite talks to a Redis that is not there
+process.env.CACHE_BACKEND = "redis";
+process.env.REDIS_URL = "redis://127.0.0.1:1";
+process.env.CACHE_FALLBACK = "none";
+process.env.CACHE_BREAKER_THRESHOLD = "1";
+
+let app: Express;
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  app = (await import("../../src/app")).default;
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  const { cache } = await import("../../src/services/myList.cache");
+  await cache.close();
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+describe("memory cache", () => {
+  test("evicts the least recently used entry and honors TTLs", async () => {
+    const cache = new MemoryCache(2, true);
+    await cache.set("a", "1");
+    await cache.set("b", "2", { ttlSeconds: 10 });
+    await cache.get("a");
+    await cache.set("c", "3");
+    expect(await cache.getMany(["a", "b", "c"])).toEqual(["1", null, "3"]);
+
+    expect(await cache.set("a", "x", { ifAbsent: true })).toBe(false);
+    await cache.set("d", "4", { ttlSeconds: 10 });
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now + 11_000);
+    expect(await cache.get("d")).toBeNull();
+  });
+
+  test("counts requests in a sliding window", async () => {
+    const cache = new MemoryCache(10, true);
+    await cache.windowAdd("w", 1000, "a", 500);
+    await cache.windowAdd("w", 1200, "b", 500);
+    await cache.windowRemove("w", "b");
+    expect(await cache.windowAdd("w", 1600, "c", 500)).toEqual({
+      count: 1,
+      oldest: 1600,
+    });
+  });
+});
+
+describe("circuit breaker", () => {
+  function setup(withFallback: boolean) {
+    const primary = new MemoryCache(10, true);
+    const fallback = withFallback ? new MemoryCache(10, false) : null;
+    const onRecover = jest.fn(async () => {});
+    const breaker = new CircuitBreakerCache(primary, fallback, {
+      threshold: 2,
+      cooldownMs: 1000,
+      onRecover,
+    });
+    return { primary, fallback, breaker, onRecover };
+  }
+
+  test("serves from the fallback while the primary fails", async () => {
+    const { primary, fallback, breaker, onRecover } = setup(true);
+    await fallback!.set("k", "stale");
+    const get = jest.spyOn(primary, "get").mockRejectedValue(new Error("down"));
+
+    expect(await breaker.get("k")).toBe("stale");
+    expect(await breaker.get("k")).toBe("stale");
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.shared).toBe(false);
+    // an open circuit does not call the primary
+    await breaker.get("k");
+    expect(get).toHaveBeenCalledTimes(2);
+
+    // after the cooldown the primary is tried again
+    get.mockRestore();
+    await primary.set("k", "fresh");
+    const recoveries = onRecover.mock.calls.length;
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now + 1001);
+    expect(await breaker.get("k")).toBe("fresh");
+    // lost writes are dealt with before the primary answers again
+    expect(onRecover).toHaveBeenCalledTimes(recoveries + 1);
+    expect(breaker.shared).toBe(true);
+  });
+
+  test("throws CacheUnavailableError without a fallback", async () => {
+    const { primary, breaker } = setup(false);
+    jest.spyOn(primary, "set").mockRejectedValue(new Error("down"));
+
+    await expect(breaker.set("k", "v")).rejects.toThrow("down");
+    await expect(breaker.set("k", "v")).rejects.toThrow("down");
+    await expect(breaker.set("k", "v")).rejects.toBeInstanceOf(
+      CacheUnavailableError,
+    );
+  });
+});
+
+describe("without Redis", () => {
+  test("list writes and reads are served from Mongo", async () => {
+    const user = await UserModel.create({ username: "offline" });
+    const movie = await MovieModel.create({ title: "Offline" });
+    const userId = user._id.toString();
+
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", userId)
+      .set("Idempotency-Key", "k1")
+      .send({
+        contentType: "movie",
+        contentId: movie._id.toString(),
+        snapshot: { title: "Offline" },
+      })
+      .expect(201);
+
+    const res = await request(app)
+      .get("/api/mylist")
+      .set("X-User-Id", userId)
+      .expect(200);
+    expect(res.body.items).toHaveLength(1);
+    // versions are unknown: no ETag rather than a stale one
+    expect(res.headers.etag).toBeUndefined();
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * tests/integration/changes.test.ts
+ *
+ * Integration tests for delta sync (GET /api/mylist/changes).
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import MyListItemModel, { trashUpdate } from "../../src/models/myListItem";
+import { withSeq } from "../../src/services/sync.service";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const user = await UserModel.create({ username: "offline" });
+  const movies = await MovieModel.create([
+    { title: "First" },
+    { title: "Second" },
+    { title: "Third" },
+  ]);
+  return { userId: user._id.toString(), movies };
+}
+
+function save(userId: string, contentId: string) {
+  return request(app)
+    .post("/api/mylist")
+    .set("X-User-Id", userId)
+    .send({ contentType: "movie", contentId, snapshot: { title: "t" } })
+    .expect(201);
+}
+
+async function changes(userId: string, since?: string, limit?: number) {
+  const query = new URLSearchParams();
+  if (since) query.set("since", since);
+  if (limit) query.set("limit", String(limit));
+  const res = await request(app)
+    .get(`/api/mylist/changes?${query}`)
+    .set("X-User-Id", userId)
+    .expect(200);
+  return res.body;
+}
+
+const summary = (body: any) =>
+  body.changes.map((c: any) => [c.op, c.item.contentId]);
+
+describe("delta sync", () => {
+  test("a client without a token is told to resync and gets one", async () => {
+    const { userId, movies } = await seedAll();
+    await save(userId, movies[0]._id.toString());
+
+    const body = await changes(userId);
+    expect(body.resyncRequired).toBe(true);
+    expect(body.changes).toEqual([]);
+
+    // nothing changed since the token
+    const next = await changes(userId, body.nextToken);
+    expect(next.resyncRequired).toBe(false);
+    expect(next.changes).toEqual([]);
+  });
+
+  test("returns adds, updates and removes since the token", async () => {
+    const { userId, movies } = await seedAll();
+    const [first, second, third] = movies.map((m) => m._id.toString());
+    await save(userId, first);
+    await save(userId, second);
+    const { nextToken } = await changes(userId);
+
+    await save(userId, third);
+    await request(app)
+      .delete(`/api/mylist/${first}`)
+      .set("X-User-Id", userId)
+      .expect(200);
+    await MovieModel.updateOne(
+      { _id: movies[1]._id },
+      { $set: { title: "Second, renamed" } },
+    );
+
+    const body = await changes(userId, nextToken);
+    expect(summary(body)).toEqual([
+      ["add", third],
+      ["remove", first],
+      ["update", second],
+    ]);
+    expect(body.changes[2].item.snapshot.title).toBe("Second, renamed");
+
+    // the new token starts after these changes
+    const again = await changes(userId, body.nextToken);
+    expect(again.changes).toEqual([]);
+  });
+
+  test("an item changed twice is returned once", async () => {
+    const { userId, movies } = await seedAll();
+    const [first, second] = movies.map((m) => m._id.toString());
+    await save(userId, first);
+    const { nextToken } = await changes(userId);
+
+    await save(userId, second);
+    await request(app)
+      .patch(`/api/mylist/${second}/position`)
+      .set("X-User-Id", userId)
+      .send({ after: first })
+      .expect(200);
+
+    const body = await changes(userId, nextToken);
+    expect(summary(body)).toEqual([["add", second]]);
+  });
+
+  test("a change written after a read took its seq is not skipped", async () => {
+    const { userId, movies } = await seedAll();
+    const [first, second] = movies.map((m) => m._id.toString());
+    await save(userId, first);
+    const { nextToken } = await changes(userId);
+    const userOid = new mongoose.Types.ObjectId(userId);
+
+    // a removal holds its seq while a later add and a read complete
+    let during: any;
+    await withSeq(userOid, async (seq) => {
+      await save(userId, second);
+      during = await changes(userId, nextToken);
+      await MyListItemModel.updateOne(
+        { userId: userOid, contentId: first },
+        { $set: { ...trashUpdate(), seq } },
+      );
+    });
+    // the add is held back with the pending removal, not handed out past it
+    expect(during.changes).toEqual([]);
+
+    const after = await changes(userId, during.nextToken);
+    expect(summary(after)).toEqual([
+      ["remove", first],
+      ["add", second],
+    ]);
+  });
+
+  test("pages through changes written by one batch", async () => {
+    const { userId, movies } = await seedAll();
+    const { nextToken } = await changes(userId);
+    await request(app)
+      .post("/api/mylist/batch")
+      .set("X-User-Id", userId)
+      .send({
+        operations: movies.map((m) => ({
+          op: "add",
+          contentType: "movie",
+          contentId: m._id.toString(),
+        })),
+      })
+      .expect(200);
+
+    const seen: string[] = [];
+    let token = nextToken;
+    for (;;) {
+      const page = await changes(userId, token, 2);
+      seen.push(...page.changes.map((c: any) => c.item.contentId));
+      token = page.nextToken;
+      if (!page.hasMore) break;
+    }
+    expect(seen.sort()).toEqual(movies.map((m) => m._id.toString()).sort());
+  });
+
+  test("a token older than the trash retention requires a resync", async () => {
+    const { userId } = await seedAll();
+    const old = Buffer.from(`sync|0||${Date.now() - 365 * 86400000}`).toString(
+      "base64",
+    );
+
+    const body = await changes(userId, old);
+    expect(body.resyncRequired).toBe(true);
+  });
+
+  test("returns 400 for a malformed token", async () => {
+    const { userId } = await seedAll();
+
+    await request(app)
+      .get("/api/mylist/changes?since=not-a-token")
+      .set("X-User-Id", userId)
+      .expect(400);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * tests/integration/contentVisibility.test.ts
+ *
+ * Integration tests for propagating catalog deletes and availability changes
+ * to list items, and for the ?visibility= filter of GET /api/mylist.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import MyListItemModel from "../../src/models/myListItem";
+import TvShowModel from "../../src/models/tvShow";
+import EpisodeModel from "../../src/models/episode";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const user = await UserModel.create({ username: "viewer" });
+  const movie = await MovieModel.create({ title: "Leaving Soon" });
+  const tvshow = await TvShowModel.create({ title: "Some Show" });
+  const episode = await EpisodeModel.create({
+    showId: tvshow._id,
+    season: 1,
+    episodeNumber: 1,
+    title: "Pilot",
+  });
+  const userId = user._id.toString();
+  for (const body of [
+    { contentType: "movie", contentId: movie._id.toString() },
+    {
+      contentType: "tvshow",
+      contentId: tvshow._id.toString(),
+      episodeId: episode._id.toString(),
+    },
+  ]) {
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", userId)
+      .send({ ...body, snapshot: { title: "t" } })
+      .expect(201);
+  }
+  return { user, movie, tvshow, episode };
+}
+
+async function visibilityOf(contentId: any) {
+  const item = await MyListItemModel.findOne({ contentId }).lean();
+  return item?.contentVisibility;
+}
+
+describe("contentVisibility propagation", () => {
+  test("deleting a movie marks list items removed and hides them", async () => {
+    const { user, movie } = await seedAll();
+
+    await MovieModel.deleteOne({ _id: movie._id });
+    expect(await visibilityOf(movie._id)).toBe("removed");
+
+    const res = await request(app)
+      .get("/api/mylist")
+      .set("X-User-Id", user._id.toString())
+      .expect(200);
+    expect(res.body.items).toHaveLength(1);
+
+    const all = await request(app)
+      .get("/api/mylist?visibility=all")
+      .set("X-User-Id", user._id.toString())
+      .expect(200);
+    expect(all.body.items).toHaveLength(2);
+  });
+
+  test("marking a movie unavailable and back updates the flag", async () => {
+    const { movie } = await seedAll();
+
+    await MovieModel.updateOne(
+      { _id: movie._id },
+      { $set: { isAvailable: false } },
+    );
+    expect(await visibilityOf(movie._id)).toBe("unavailable");
+
+    const doc = await MovieModel.findById(movie._id);
+    doc!.isAvailable = true;
+    await doc!.save();
+    expect(await visibilityOf(movie._id)).toBe("available");
+  });
+
+  test("an episode save is available only while show and episode are", async () => {
+    const { tvshow, episode } = await seedAll();
+
+    await EpisodeModel.updateOne(
+      { _id: episode._id },
+      { $set: { isAvailable: false } },
+    );
+    await TvShowModel.updateOne(
+      { _id: tvshow._id },
+      { $set: { isAvailable: false } },
+    );
+    expect(await visibilityOf(tvshow._id)).toBe("unavailable");
+
+    // the show is back, the episode is not
+    await TvShowModel.updateOne(
+      { _id: tvshow._id },
+      { $set: { isAvailable: true } },
+    );
+    expect(await visibilityOf(tvshow._id)).toBe("unavailable");
+
+    await EpisodeModel.updateOne(
+      { _id: episode._id },
+      { $set: { isAvailable: true } },
+    );
+    expect(await visibilityOf(tvshow._id)).toBe("available");
+  });
+
+  test("deleting an episode only affects saves of that episode", async () => {
+    const { tvshow, episode } = await seedAll();
+
+    await EpisodeModel.findOneAndDelete({ _id: episode._id });
+    expect(await visibilityOf(tvshow._id)).toBe("removed");
+
+    // a removed item is never switched back to available
+    await TvShowModel.updateOne(
+      { _id: tvshow._id },
+      { $set: { isAvailable: true } },
+    );
+    expect(await visibilityOf(tvshow._id)).toBe("removed");
+  });
+
+  test("items of a catalog doc are found by index", async () => {
+    const indexes = MyListItemModel.schema.indexes();
+    expect(indexes).toContainEqual([
+      { contentId: 1, _id: 1 },
+      expect.anything(),
+    ]);
+    expect(indexes).toContainEqual([{ episodeId: 1 }, expect.anything()]);
+  });
+
+  test("returns 400 for an unknown visibility", async () => {
+    const { user } = await seedAll();
+
+    await request(app)
+      .get("/api/mylist?visibility=hidden")
+      .set("X-User-Id", user._id.toString())
+      .expect(400);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * tests/integration/episodes.test.ts
+ *
+ * Integration tests for saving several episodes of the same show,
+ * removing a single saved episode and the groupBy=show list view.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MyListItemModel from "../../src/models/myListItem";
+import TvShowModel from "../../src/models/tvShow";
+import EpisodeModel from "../../src/models/episode";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const user = await UserModel.create({ username: "binger" });
+  const tvshow = await TvShowModel.create({
+    title: "Long Show",
+    genres: ["Drama"],
+  });
+  const [s2e1, s1e2, s1e1] = await EpisodeModel.create([
+    { showId: tvshow._id, season: 2, episodeNumber: 1, title: "S2E1" },
+    { showId: tvshow._id, season: 1, episodeNumber: 2, title: "S1E2" },
+    { showId: tvshow._id, season: 1, episodeNumber: 1, title: "S1E1" },
+  ]);
+  return { user, tvshow, s2e1, s1e2, s1e1 };
+}
+
+function save(userId: string, showId: string, episodeId?: string) {
+  return request(app)
+    .post("/api/mylist")
+    .set("X-User-Id", userId)
+    .send({
+      contentType: "tvshow",
+      contentId: showId,
+      episodeId,
+      snapshot: { title: "Long Show" },
+    })
+    .expect(201);
+}
+
+describe("episode saves", () => {
+  test("show save and several episode saves coexist", async () => {
+    const { user, tvshow, s2e1, s1e1 } = await seedAll();
+    const userId = user._id.toString();
+    const showId = tvshow._id.toString();
+
+    await save(userId, showId);
+    await save(userId, showId, s2e1._id.toString());
+    await save(userId, showId, s1e1._id.toString());
+    // saving the same episode again stays idempotent
+    await save(userId, showId, s1e1._id.toString());
+
+    const count = await MyListItemModel.countDocuments({ userId: user._id });
+    expect(count).toBe(3);
+  });
+
+  test("DELETE with episodeId removes only that episode", async () => {
+    const { user, tvshow, s1e1, s1e2 } = await seedAll();
+    const userId = user._id.toString();
+    const showId = tvshow._id.toString();
+    await save(userId, showId);
+    await save(userId, showId, s1e1._id.toString());
+    await save(userId, showId, s1e2._id.toString());
+
+    await request(app)
+      .delete(`/api/mylist/${showId}?episodeId=${s1e1._id}`)
+      .set("X-User-Id", userId)
+      .expect(200);
+
+    const remaining = await MyListItemModel.find({
+      userId: user._id,
+      deletedAt: null,
+    }).lean();
+    expect(
+      remaining.map((r) => r.episodeId?.toString() ?? null).sort(),
+    ).toEqual([null, s1e2._id.toString()].sort());
+  });
+
+  test("groupBy=show nests episodes ordered by season and episode", async () => {
+    const { user, tvshow, s2e1, s1e2, s1e1 } = await seedAll();
+    const userId = user._id.toString();
+    const showId = tvshow._id.toString();
+    await save(userId, showId, s2e1._id.toString());
+    await save(userId, showId, s1e2._id.toString());
+    await save(userId, showId, s1e1._id.toString());
+
+    const res = await request(app)
+      .get("/api/mylist?groupBy=show")
+      .set("X-User-Id", userId)
+      .expect(200);
+
+    expect(res.body.items).toHaveLength(1);
+    const [entry] = res.body.items;
+    expect(entry.contentId).toBe(showId);
+    // only episodes were saved, there is no show-level save
+    expect(entry.item).toBeNull();
+    expect(entry.episodes.map((e: any) => e.episode.title)).toEqual([
+      "S1E1",
+      "S1E2",
+      "S2E1",
+    ]);
+  });
+
+  test("groupBy=show rejects sort=custom", async () => {
+    const { user } = await seedAll();
+
+    await request(app)
+      .get("/api/mylist?groupBy=show&sort=custom")
+      .set("X-User-Id", user._id.toString())
+      .expect(400);
+  });
+});
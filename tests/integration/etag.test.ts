@@ -0,0 +1,123 @@
+/**
+ * tests/integration/etag.test.ts
+ *
+ * Integration tests for ETags and conditional GET on list pages.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const user = await UserModel.create({ username: "poller" });
+  const movies = await MovieModel.create([
+    { title: "First", durationMinutes: 100 },
+    { title: "Second" },
+  ]);
+  const userId = user._id.toString();
+  await save(userId, movies[0]._id.toString());
+  return { userId, movies };
+}
+
+function save(userId: string, contentId: string) {
+  return request(app)
+    .post("/api/mylist")
+    .set("X-User-Id", userId)
+    .send({ contentType: "movie", contentId, snapshot: { title: "t" } })
+    .expect(201);
+}
+
+function page(userId: string, etag?: string, query = "") {
+  const req = request(app).get(`/api/mylist${query}`).set("X-User-Id", userId);
+  return etag ? req.set("If-None-Match", etag) : req;
+}
+
+describe("conditional GET", () => {
+  test("an unchanged page is answered with 304", async () => {
+    const { userId } = await seedAll();
+
+    const first = await page(userId).expect(200);
+    const etag = first.headers["etag"];
+    expect(etag).toMatch(/^"[^"]+"$/);
+    expect(first.headers["cache-control"]).toBe("private, no-cache");
+
+    const again = await page(userId, etag).expect(304);
+    expect(again.text).toBe("");
+    expect(again.headers["etag"]).toBe(etag);
+  });
+
+  test("a list change produces a new ETag", async () => {
+    const { userId, movies } = await seedAll();
+    const { headers } = await page(userId).expect(200);
+
+    await save(userId, movies[1]._id.toString());
+
+    const res = await page(userId, headers["etag"]).expect(200);
+    expect(res.body.items).toHaveLength(2);
+    expect(res.headers["etag"]).not.toBe(headers["etag"]);
+  });
+
+  test("watch progress changes the ETag", async () => {
+    const { userId, movies } = await seedAll();
+    const { headers } = await page(userId).expect(200);
+
+    await request(app)
+      .put(`/api/progress/${movies[0]._id}`)
+      .set("X-User-Id", userId)
+      .send({ contentType: "movie", positionSeconds: 600 })
+      .expect(200);
+
+    const res = await page(userId, headers["etag"]).expect(200);
+    expect(res.body.items[0].progress.positionSeconds).toBe(600);
+  });
+
+  test("a catalog change refreshes expanded pages with the ETag", async () => {
+    const { userId, movies } = await seedAll();
+    const query = "?expand=content";
+    const { headers } = await page(userId, undefined, query).expect(200);
+
+    // not a snapshot field: only the embedded catalog doc shows it
+    await MovieModel.updateOne(
+      { _id: movies[0]._id },
+      { $set: { actors: ["New Cast"] } },
+    );
+
+    const res = await page(userId, headers["etag"], query).expect(200);
+    expect(res.headers["etag"]).not.toBe(headers["etag"]);
+    expect(res.body.items[0].content.actors).toEqual(["New Cast"]);
+    await page(userId, res.headers["etag"], query).expect(304);
+  });
+
+  test("each query has its own ETag", async () => {
+    const { userId } = await seedAll();
+    const { headers } = await page(userId).expect(200);
+
+    const other = await page(userId, headers["etag"], "?limit=1").expect(200);
+    expect(other.headers["etag"]).not.toBe(headers["etag"]);
+  });
+});
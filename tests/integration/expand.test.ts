@@ -0,0 +1,124 @@
+/**
+ * tests/integration/expand.test.ts
+ *
+ * Integration tests for GET /api/mylist?expand=content (live catalog data).
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import TvShowModel from "../../src/models/tvShow";
+import EpisodeModel from "../../src/models/episode";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const user = await UserModel.create({ username: "expander" });
+  const movie = await MovieModel.create({
+    title: "Heat",
+    director: "Michael Mann",
+  });
+  const tvshow = await TvShowModel.create({ title: "The Wire", seasons: 5 });
+  const episode = await EpisodeModel.create({
+    showId: tvshow._id,
+    season: 1,
+    episodeNumber: 1,
+    title: "The Target",
+  });
+  const userId = user._id.toString();
+  for (const body of [
+    { contentType: "movie", contentId: movie._id.toString() },
+    {
+      contentType: "tvshow",
+      contentId: tvshow._id.toString(),
+      episodeId: episode._id.toString(),
+    },
+  ]) {
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", userId)
+      .send({ ...body, snapshot: { title: "t" } })
+      .expect(201);
+  }
+  return { userId, movie, tvshow, episode };
+}
+
+describe("GET /api/mylist?expand=content", () => {
+  test("attaches movie, show and episode documents to each item", async () => {
+    const { userId, movie, tvshow } = await seedAll();
+
+    const res = await request(app)
+      .get("/api/mylist?expand=content")
+      .set("X-User-Id", userId)
+      .expect(200);
+
+    const [showItem, movieItem] = res.body.items;
+    expect(movieItem.contentId).toBe(movie._id.toString());
+    expect(movieItem.content.director).toBe("Michael Mann");
+    expect(movieItem.episode).toBeNull();
+    expect(showItem.content.seasons).toBe(5);
+    expect(showItem.content._id).toBe(tvshow._id.toString());
+    expect(showItem.episode.title).toBe("The Target");
+  });
+
+  test("expanded and plain pages are cached separately", async () => {
+    const { userId } = await seedAll();
+
+    const plain = await request(app)
+      .get("/api/mylist")
+      .set("X-User-Id", userId)
+      .expect(200);
+    expect(plain.body.items[0].content).toBeUndefined();
+
+    const expanded = await request(app)
+      .get("/api/mylist?expand=content")
+      .set("X-User-Id", userId)
+      .expect(200);
+    expect(expanded.body.items[0].content).toBeTruthy();
+  });
+
+  test("deleted content expands to null", async () => {
+    const { userId, movie } = await seedAll();
+    await MovieModel.deleteOne({ _id: movie._id });
+
+    const res = await request(app)
+      .get("/api/mylist?expand=content&visibility=all")
+      .set("X-User-Id", userId)
+      .expect(200);
+    const item = res.body.items.find(
+      (i: any) => i.contentId === movie._id.toString(),
+    );
+    expect(item.content).toBeNull();
+  });
+
+  test("returns 400 for an unknown expand value", async () => {
+    const { userId } = await seedAll();
+    await request(app)
+      .get("/api/mylist?expand=everything")
+      .set("X-User-Id", userId)
+      .expect(400);
+  });
+});
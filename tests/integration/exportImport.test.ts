@@ -0,0 +1,230 @@
+/**
+ * tests/integration/exportImport.test.ts
+ *
+ * Integration tests for GET /api/mylist/export and POST /api/mylist/import
+ * (JSON and CSV, merge and replace).
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import TvShowModel from "../../src/models/tvShow";
+import EpisodeModel from "../../src/models/episode";
+import MyListItemModel from "../../src/models/myListItem";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const [source, target] = await UserModel.create([
+    { username: "old-account" },
+    { username: "new-account" },
+  ]);
+  const [first, second] = await MovieModel.create([
+    { title: "First, the movie" },
+    { title: 'The "Second"' },
+  ]);
+  const tvshow = await TvShowModel.create({ title: "Show" });
+  const episode = await EpisodeModel.create({
+    showId: tvshow._id,
+    season: 1,
+    episodeNumber: 1,
+    title: "Pilot",
+  });
+  // added bottom-up, so the list reads episode, second, first
+  for (const body of [
+    {
+      contentType: "movie",
+      contentId: first._id.toString(),
+      title: first.title,
+    },
+    {
+      contentType: "movie",
+      contentId: second._id.toString(),
+      title: second.title,
+    },
+    {
+      contentType: "tvshow",
+      contentId: tvshow._id.toString(),
+      episodeId: episode._id.toString(),
+      title: tvshow.title,
+    },
+  ]) {
+    const { title, ...item } = body;
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", source._id.toString())
+      .send({ ...item, snapshot: { title } })
+      .expect(201);
+  }
+  return {
+    sourceId: source._id.toString(),
+    targetId: target._id.toString(),
+    first,
+    second,
+    tvshow,
+    episode,
+  };
+}
+
+async function contentIdsOf(userId: string) {
+  const res = await request(app)
+    .get("/api/mylist?sort=custom")
+    .set("X-User-Id", userId)
+    .expect(200);
+  return res.body.items.map((i: any) => i.contentId);
+}
+
+describe("list export and import", () => {
+  test("exports the whole list as JSON in list order", async () => {
+    const { sourceId, first, second, tvshow, episode } = await seedAll();
+
+    const res = await request(app)
+      .get("/api/mylist/export")
+      .set("X-User-Id", sourceId)
+      .expect(200);
+    expect(res.headers["content-disposition"]).toContain("mylist.json");
+    expect(res.body.map((r: any) => r.contentId)).toEqual([
+      tvshow._id.toString(),
+      second._id.toString(),
+      first._id.toString(),
+    ]);
+    expect(res.body[0].episodeId).toBe(episode._id.toString());
+    expect(res.body[2].title).toBe("First, the movie");
+  });
+
+  test("a CSV export imports into another account in the same order", async () => {
+    const { sourceId, targetId } = await seedAll();
+
+    const exported = await request(app)
+      .get("/api/mylist/export?format=csv")
+      .set("X-User-Id", sourceId)
+      .expect(200);
+    expect(exported.headers["content-type"]).toContain("text/csv");
+    expect(exported.text.split("\r\n")[0]).toBe(
+      "contentType,contentId,episodeId,title,addedAt",
+    );
+    expect(exported.text).toContain('"The ""Second"""');
+
+    const res = await request(app)
+      .post("/api/mylist/import")
+      .set("X-User-Id", targetId)
+      .set("Content-Type", "text/csv")
+      .send(exported.text)
+      .expect(200);
+    expect(res.body.summary).toMatchObject({ added: 3, invalid: 0 });
+    expect(await contentIdsOf(targetId)).toEqual(await contentIdsOf(sourceId));
+  });
+
+  test("CSV exports neutralize titles that look like formulas", async () => {
+    const { targetId, first } = await seedAll();
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", targetId)
+      .send({
+        contentType: "movie",
+        contentId: first._id.toString(),
+        snapshot: { title: '=HYPERLINK("http://evil")' },
+      })
+      .expect(201);
+
+    const exported = await request(app)
+      .get("/api/mylist/export?format=csv")
+      .set("X-User-Id", targetId)
+      .expect(200);
+    expect(exported.text).toContain(`"'=HYPERLINK(""http://evil"")"`);
+  });
+
+  test("reports invalid, missing and duplicate rows without failing", async () => {
+    const { targetId, first } = await seedAll();
+
+    const res = await request(app)
+      .post("/api/mylist/import")
+      .set("X-User-Id", targetId)
+      .send([
+        { contentType: "movie", contentId: first._id.toString() },
+        { contentType: "movie", contentId: first._id.toString() },
+        {
+          contentType: "movie",
+          contentId: new mongoose.Types.ObjectId().toString(),
+        },
+        { contentType: "podcast", contentId: first._id.toString() },
+      ])
+      .expect(200);
+    expect(res.body.results.map((r: any) => r.status)).toEqual([
+      "added",
+      "invalid",
+      "not_found",
+      "invalid",
+    ]);
+    expect(res.body.results[1].code).toBe("DUPLICATE_ITEM");
+    expect(res.body.results[3].code).toBe("INVALID_ROW");
+  });
+
+  test("replace removes items the file does not name", async () => {
+    const { sourceId, first, second } = await seedAll();
+
+    const res = await request(app)
+      .post("/api/mylist/import?mode=replace")
+      .set("X-User-Id", sourceId)
+      .send([
+        { contentType: "movie", contentId: second._id.toString() },
+        { contentType: "movie", contentId: first._id.toString() },
+      ])
+      .expect(200);
+    expect(res.body.summary).toMatchObject({
+      added: 0,
+      already_present: 2,
+      removed: 1,
+    });
+    expect(await MyListItemModel.countDocuments({ deletedAt: null })).toBe(2);
+  });
+
+  test("merge keeps existing items", async () => {
+    const { sourceId, first } = await seedAll();
+
+    await request(app)
+      .post("/api/mylist/import")
+      .set("X-User-Id", sourceId)
+      .send([{ contentType: "movie", contentId: first._id.toString() }])
+      .expect(200);
+    expect(await MyListItemModel.countDocuments()).toBe(3);
+  });
+
+  test("returns 400 for an empty import or an unknown mode", async () => {
+    const { targetId } = await seedAll();
+
+    await request(app)
+      .post("/api/mylist/import")
+      .set("X-User-Id", targetId)
+      .send([])
+      .expect(400);
+    await request(app)
+      .post("/api/mylist/import?mode=overwrite")
+      .set("X-User-Id", targetId)
+      .send([{ contentType: "movie", contentId: "x" }])
+      .expect(400);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * tests/integration/health.test.ts
+ *
+ * Integration tests for the liveness and readiness endpoints.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import { cache } from "../../src/services/myList.cache";
+import { markShuttingDown } from "../../src/services/health.service";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("health checks", () => {
+  test("live and the legacy /health answer ok", async () => {
+    for (const path of ["/health", "/health/live"]) {
+      const res = await request(app).get(path).expect(200);
+      expect(res.body.status).toBe("ok");
+    }
+  });
+
+  test("ready reports each dependency", async () => {
+    const res = await request(app).get("/health/ready").expect(200);
+    expect(res.body.status).toBe("ready");
+    expect(res.body.checks.mongo.status).toBe("up");
+    expect(res.body.checks.cache).toMatchObject({
+      status: "up",
+      backend: "memory",
+      required: false,
+    });
+  });
+
+  test("a cache outage is reported but does not fail readiness", async () => {
+    jest.spyOn(cache, "ping").mockRejectedValue(new Error("ECONNREFUSED"));
+
+    const res = await request(app).get("/health/ready").expect(200);
+    expect(res.body.checks.cache).toMatchObject({
+      status: "down",
+      error: "ECONNREFUSED",
+    });
+  });
+
+  test("an unreachable Mongo fails readiness", async () => {
+    jest
+      .spyOn(mongoose.connection.db!, "admin")
+      .mockReturnValue({ ping: () => new Promise(() => {}) } as any);
+
+    const res = await request(app).get("/health/ready").expect(503);
+    expect(res.body.status).toBe("not_ready");
+    expect(res.body.checks.mongo.status).toBe("down");
+    expect(res.body.checks.mongo.error).toMatch(/no answer/);
+  });
+
+  // last: the flag stays set for the rest of the suite
+  test("ready fails once shutdown has started", async () => {
+    markShuttingDown();
+
+    const res = await request(app).get("/health/ready").expect(503);
+    expect(res.body.status).toBe("shutting_down");
+    await request(app).get("/health/live").expect(200);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * tests/integration/idempotency.test.ts
+ *
+ * Integration tests for the Idempotency-Key header on list mutations.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { randomUUID } from "crypto";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import MyListItemModel from "../../src/models/myListItem";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const [user, other] = await UserModel.create([
+    { username: "retrier" },
+    { username: "other" },
+  ]);
+  const movies = await MovieModel.create([
+    { title: "First" },
+    { title: "Second" },
+  ]);
+  return {
+    userId: user._id.toString(),
+    otherId: other._id.toString(),
+    movies,
+  };
+}
+
+function add(userId: string, contentId: string, key?: string) {
+  const req = request(app).post("/api/mylist").set("X-User-Id", userId);
+  if (key) req.set("Idempotency-Key", key);
+  return req.send({
+    contentType: "movie",
+    contentId,
+    snapshot: { title: "t" },
+  });
+}
+
+describe("idempotency keys", () => {
+  test("a retried add after a delete does not resurrect the item", async () => {
+    const { userId, movies } = await seedAll();
+    const contentId = movies[0]._id.toString();
+    const key = randomUUID();
+
+    const first = await add(userId, contentId, key).expect(201);
+    await request(app)
+      .delete(`/api/mylist/${contentId}`)
+      .set("X-User-Id", userId)
+      .expect(200);
+
+    const retry = await add(userId, contentId, key).expect(201);
+    expect(retry.headers["idempotent-replayed"]).toBe("true");
+    expect(retry.body).toEqual(first.body);
+    expect(
+      await MyListItemModel.countDocuments({ contentId, deletedAt: null }),
+    ).toBe(0);
+  });
+
+  test("a retried delete replays its first response", async () => {
+    const { userId, movies } = await seedAll();
+    const contentId = movies[0]._id.toString();
+    await add(userId, contentId).expect(201);
+    const key = randomUUID();
+
+    const remove = () =>
+      request(app)
+        .delete(`/api/mylist/${contentId}`)
+        .set("X-User-Id", userId)
+        .set("Idempotency-Key", key);
+    await remove().expect(200);
+    const retry = await remove().expect(200);
+    expect(retry.headers["idempotent-replayed"]).toBe("true");
+  });
+
+  test("reusing a key with a different body is rejected with 422", async () => {
+    const { userId, movies } = await seedAll();
+    const key = randomUUID();
+
+    await add(userId, movies[0]._id.toString(), key).expect(201);
+    const res = await add(userId, movies[1]._id.toString(), key).expect(422);
+    expect(res.body.code).toBe("IDEMPOTENCY_KEY_REUSED");
+    expect(
+      await MyListItemModel.countDocuments({ contentId: movies[1]._id }),
+    ).toBe(0);
+  });
+
+  test("keys are scoped to the user", async () => {
+    const { userId, otherId, movies } = await seedAll();
+    const key = randomUUID();
+
+    await add(userId, movies[0]._id.toString(), key).expect(201);
+    const res = await add(otherId, movies[1]._id.toString(), key).expect(201);
+    expect(res.headers["idempotent-replayed"]).toBeUndefined();
+  });
+
+  test("batch requests are replayed too", async () => {
+    const { userId, movies } = await seedAll();
+    const key = randomUUID();
+    const batch = () =>
+      request(app)
+        .post("/api/mylist/batch")
+        .set("X-User-Id", userId)
+        .set("Idempotency-Key", key)
+        .send({
+          operations: [
+            { op: "add", contentType: "movie", contentId: `${movies[0]._id}` },
+          ],
+        });
+
+    const first = await batch().expect(200);
+    const retry = await batch().expect(200);
+    expect(retry.body).toEqual(first.body);
+    expect(retry.headers["idempotent-replayed"]).toBe("true");
+  });
+
+  test("returns 400 for an overlong key", async () => {
+    const { userId, movies } = await seedAll();
+
+    await add(userId, movies[0]._id.toString(), "k".repeat(256)).expect(400);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * tests/integration/limits.test.ts
+ *
+ * Integration tests for the per-user rate limits and the list size quota.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import type { Express } from "express";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+
+// small budgets for this suite; read when the app is loaded
+process.env.RATE_LIMIT_WRITES = "6";
+process.env.MYLIST_MAX_ITEMS = "3";
+
+let app: Express;
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  app = (await import("../../src/app")).default;
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const user = await UserModel.create({ username: "scripted" });
+  const movies = await MovieModel.create(
+    ["One", "Two", "Three", "Four", "Five"].map((title) => ({ title })),
+  );
+  return { userId: user._id.toString(), movies };
+}
+
+function add(userId: string, contentId: string) {
+  return request(app)
+    .post("/api/mylist")
+    .set("X-User-Id", userId)
+    .send({ contentType: "movie", contentId, snapshot: { title: "t" } });
+}
+
+describe("list size quota", () => {
+  test("adds past MYLIST_MAX_ITEMS fail with LIST_FULL", async () => {
+    const { userId, movies } = await seedAll();
+    for (const movie of movies.slice(0, 3)) {
+      await add(userId, movie._id.toString()).expect(201);
+    }
+
+    const res = await add(userId, movies[3]._id.toString()).expect(409);
+    expect(res.body.code).toBe("LIST_FULL");
+    // an item already in the list is still returned
+    await add(userId, movies[0]._id.toString()).expect(201);
+
+    const batch = await request(app)
+      .post("/api/mylist/batch")
+      .set("X-User-Id", userId)
+      .send({
+        operations: [
+          { op: "remove", contentId: movies[0]._id.toString() },
+          { op: "add", contentType: "movie", contentId: `${movies[3]._id}` },
+          { op: "add", contentType: "movie", contentId: `${movies[4]._id}` },
+        ],
+      })
+      .expect(200);
+    expect(batch.body.results.map((r: any) => r.status)).toEqual([
+      "removed",
+      "added",
+      "invalid",
+    ]);
+    expect(batch.body.results[2].code).toBe("LIST_FULL");
+  });
+});
+
+describe("rate limits", () => {
+  test("writes past the budget get 429 with Retry-After", async () => {
+    const { userId } = await seedAll();
+    const missing = new mongoose.Types.ObjectId().toString();
+    const remove = () =>
+      request(app).delete(`/api/mylist/${missing}`).set("X-User-Id", userId);
+
+    for (let i = 0; i < 6; i++) {
+      const res = await remove().expect(404);
+      expect(res.headers["ratelimit-limit"]).toBe("6");
+      expect(res.headers["ratelimit-remaining"]).toBe(String(5 - i));
+    }
+    const res = await remove().expect(429);
+    expect(res.body.code).toBe("RATE_LIMITED");
+    expect(Number(res.headers["retry-after"])).toBeGreaterThan(0);
+    expect(res.headers["ratelimit-remaining"]).toBe("0");
+
+    // reads have their own budget
+    const read = await request(app)
+      .get("/api/mylist")
+      .set("X-User-Id", userId)
+      .expect(200);
+    expect(Number(read.headers["ratelimit-remaining"])).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * tests/integration/listFilters.test.ts
+ *
+ * Integration tests for the genre, q (title search) and addedAfter/addedBefore
+ * filters of GET /api/mylist, and for cursors bound to their filter set.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import MyListItemModel from "../../src/models/myListItem";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const user = await UserModel.create({ username: "searcher" });
+  const movies = await MovieModel.create([
+    { title: "The Dark Knight", genres: ["Action", "Drama"] },
+    { title: "Amélie", genres: ["Comedy"] },
+    { title: "Dark City", genres: ["Sci-Fi"] },
+  ]);
+  const userId = user._id.toString();
+  for (const movie of movies) {
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", userId)
+      .send({
+        contentType: "movie",
+        contentId: movie._id.toString(),
+        snapshot: { title: movie.title, genres: movie.genres },
+      })
+      .expect(201);
+  }
+  return { user, movies };
+}
+
+function list(userId: string, query: string) {
+  return request(app).get(`/api/mylist?${query}`).set("X-User-Id", userId);
+}
+
+const titles = (res: any) => res.body.items.map((i: any) => i.snapshot.title);
+
+describe("GET /api/mylist filters", () => {
+  test("q matches title word prefixes, ignoring case and accents", async () => {
+    const { user } = await seedAll();
+    const userId = user._id.toString();
+
+    const dark = await list(userId, "q=dark").expect(200);
+    expect(titles(dark)).toEqual(["Dark City", "The Dark Knight"]);
+
+    const knight = await list(userId, "q=DARK%20kni").expect(200);
+    expect(titles(knight)).toEqual(["The Dark Knight"]);
+
+    const amelie = await list(userId, "q=amel").expect(200);
+    expect(titles(amelie)).toEqual(["Amélie"]);
+  });
+
+  test("genre filters on snapshot genres", async () => {
+    const { user } = await seedAll();
+
+    const res = await list(user._id.toString(), "genre=Drama").expect(200);
+    expect(titles(res)).toEqual(["The Dark Knight"]);
+  });
+
+  test("addedAfter/addedBefore filter on addedAt", async () => {
+    const { user, movies } = await seedAll();
+    const userId = user._id.toString();
+    await MyListItemModel.updateOne(
+      { contentId: movies[0]._id },
+      { $set: { addedAt: new Date("2020-01-01T00:00:00Z") } },
+    );
+
+    const before = await list(userId, "addedBefore=2021-01-01").expect(200);
+    expect(titles(before)).toEqual(["The Dark Knight"]);
+
+    const after = await list(userId, "addedAfter=2021-01-01").expect(200);
+    expect(after.body.items).toHaveLength(2);
+
+    await list(userId, "addedAfter=yesterday").expect(400);
+  });
+
+  test("cursors only work with the filters they were issued for", async () => {
+    const { user } = await seedAll();
+    const userId = user._id.toString();
+
+    const first = await list(userId, "q=dark&limit=1").expect(200);
+    expect(first.body.nextCursor).toBeTruthy();
+    const cursor = encodeURIComponent(first.body.nextCursor);
+
+    const second = await list(userId, `q=dark&limit=1&cursor=${cursor}`).expect(
+      200,
+    );
+    expect(titles(second)).toEqual(["The Dark Knight"]);
+
+    const res = await list(userId, `genre=Drama&limit=1&cursor=${cursor}`);
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe("INVALID_CURSOR");
+  });
+});
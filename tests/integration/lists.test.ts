@@ -0,0 +1,150 @@
+/**
+ * tests/integration/lists.test.ts
+ *
+ * Integration tests for named lists (/api/lists) and list-scoped items
+ * (/api/lists/:listId/items).
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import ListModel from "../../src/models/list";
+import MyListItemModel from "../../src/models/myListItem";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const user = await UserModel.create({ username: "lister" });
+  const movie = await MovieModel.create({
+    title: "Weekend Movie",
+    genres: ["Comedy"],
+  });
+  return { user, movie };
+}
+
+describe("/api/lists", () => {
+  test("creates a named list and returns it after the default list", async () => {
+    const { user } = await seedAll();
+
+    const created = await request(app)
+      .post("/api/lists")
+      .set("X-User-Id", user._id.toString())
+      .send({ name: "Weekend" })
+      .expect(201);
+    expect(created.body.list.name).toBe("Weekend");
+
+    const res = await request(app)
+      .get("/api/lists")
+      .set("X-User-Id", user._id.toString())
+      .expect(200);
+    expect(res.body.lists.map((l: any) => l.name)).toEqual([
+      "My List",
+      "Weekend",
+    ]);
+    expect(res.body.lists[0].id).toBe("default");
+  });
+
+  test("returns 409 for a duplicate list name", async () => {
+    const { user } = await seedAll();
+    await ListModel.create({ userId: user._id, name: "Weekend" });
+
+    await request(app)
+      .post("/api/lists")
+      .set("X-User-Id", user._id.toString())
+      .send({ name: "Weekend" })
+      .expect(409);
+  });
+
+  test("the same content can be saved in the default and a named list", async () => {
+    const { user, movie } = await seedAll();
+    const list = await ListModel.create({ userId: user._id, name: "Kids" });
+    const body = {
+      contentType: "movie",
+      contentId: movie._id.toString(),
+      snapshot: { title: movie.title },
+    };
+
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", user._id.toString())
+      .send(body)
+      .expect(201);
+    const res = await request(app)
+      .post(`/api/lists/${list._id}/items`)
+      .set("X-User-Id", user._id.toString())
+      .send(body)
+      .expect(201);
+    expect(res.body.item.listId).toBe(list._id.toString());
+
+    const count = await MyListItemModel.countDocuments({ userId: user._id });
+    expect(count).toBe(2);
+  });
+
+  test("returns 404 when adding to a list of another user", async () => {
+    const { user, movie } = await seedAll();
+    const other = await UserModel.create({ username: "other" });
+    const list = await ListModel.create({ userId: other._id, name: "Theirs" });
+
+    await request(app)
+      .post(`/api/lists/${list._id}/items`)
+      .set("X-User-Id", user._id.toString())
+      .send({
+        contentType: "movie",
+        contentId: movie._id.toString(),
+        snapshot: { title: movie.title },
+      })
+      .expect(404);
+  });
+
+  test("deleting a list removes its items", async () => {
+    const { user, movie } = await seedAll();
+    const list = await ListModel.create({ userId: user._id, name: "Temp" });
+    await MyListItemModel.create({
+      userId: user._id,
+      listId: list._id,
+      contentType: "movie",
+      contentId: movie._id,
+      snapshot: { title: movie.title },
+    });
+
+    await request(app)
+      .delete(`/api/lists/${list._id}`)
+      .set("X-User-Id", user._id.toString())
+      .expect(200);
+
+    const count = await MyListItemModel.countDocuments({ listId: list._id });
+    expect(count).toBe(0);
+  });
+
+  test("the default list cannot be deleted", async () => {
+    const { user } = await seedAll();
+
+    await request(app)
+      .delete("/api/lists/default")
+      .set("X-User-Id", user._id.toString())
+      .expect(400);
+  });
+});
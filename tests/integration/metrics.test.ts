@@ -0,0 +1,86 @@
+/**
+ * tests/integration/metrics.test.ts
+ *
+ * Integration tests for the Prometheus /metrics endpoint.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function metrics() {
+  const res = await request(app).get("/metrics").expect(200);
+  expect(res.headers["content-type"]).toMatch(/^text\/plain/);
+  return res.text;
+}
+
+describe("GET /metrics", () => {
+  test("reports page cache results, list reads and routes", async () => {
+    const user = await UserModel.create({ username: "observed" });
+    const movie = await MovieModel.create({ title: "Watched" });
+    const userId = user._id.toString();
+
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", userId)
+      .send({
+        contentType: "movie",
+        contentId: movie._id.toString(),
+        snapshot: { title: "Watched" },
+      })
+      .expect(201);
+    for (let i = 0; i < 2; i++) {
+      await request(app)
+        .get("/api/mylist?includeTotal=true")
+        .set("X-User-Id", userId)
+        .expect(200);
+    }
+    // a failing request under a nested mount
+    const missing = new mongoose.Types.ObjectId().toString();
+    await request(app)
+      .delete(`/api/lists/${missing}/items/${missing}`)
+      .set("X-User-Id", userId)
+      .expect(404);
+
+    const text = await metrics();
+    expect(text).toContain('mylist_page_cache_requests_total{result="miss"} 1');
+    expect(text).toContain('mylist_page_cache_requests_total{result="hit"} 1');
+    expect(text).toContain(
+      'mylist_mongo_query_duration_seconds_count{query="page"} 1',
+    );
+    // the add and the counted read sample the list once
+    expect(text).toContain('mylist_list_size_bucket{le="10"} 1');
+    expect(text).toContain(
+      'http_request_duration_seconds_count{method="GET",route="/api/mylist",status="200"} 2',
+    );
+    expect(text).toContain(
+      'route="/api/lists/:listId/items/:contentId",status="404"',
+    );
+    expect(text).not.toContain(missing);
+  });
+});
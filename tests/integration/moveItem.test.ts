@@ -0,0 +1,201 @@
+/**
+ * tests/integration/moveItem.test.ts
+ *
+ * Integration tests for manual reordering (PATCH /api/mylist/:contentId/position)
+ * and reading the list back with sort=custom.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import MyListItemModel from "../../src/models/myListItem";
+import { backfillRanks } from "../../src/services/myList.service";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+/**
+ * Seeds a user and adds `count` movies to their list through the API,
+ * in order, so the newest movie is the last one added.
+ */
+async function seedList(count: number) {
+  const user = await UserModel.create({ username: "mover" });
+  const movies = [];
+  for (let i = 0; i < count; i++) {
+    const movie = await MovieModel.create({
+      title: `Movie ${i + 1}`,
+      genres: ["Drama"],
+    });
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", user._id.toString())
+      .send({
+        contentType: "movie",
+        contentId: movie._id.toString(),
+        snapshot: { title: movie.title },
+      })
+      .expect(201);
+    movies.push(movie);
+  }
+  return { user, movies };
+}
+
+async function customOrder(userId: string) {
+  const res = await request(app)
+    .get("/api/mylist?sort=custom")
+    .set("X-User-Id", userId)
+    .expect(200);
+  return res.body.items.map((item: any) => item.snapshot.title);
+}
+
+describe("PATCH /api/mylist/:contentId/position", () => {
+  test("new items are placed at the top of the custom order", async () => {
+    const { user } = await seedList(3);
+
+    expect(await customOrder(user._id.toString())).toEqual([
+      "Movie 3",
+      "Movie 2",
+      "Movie 1",
+    ]);
+  });
+
+  test("moves an item before another and only rewrites its rank", async () => {
+    const { user, movies } = await seedList(3);
+    const before = await MyListItemModel.find({ userId: user._id }).lean();
+
+    await request(app)
+      .patch(`/api/mylist/${movies[0]._id}/position`)
+      .set("X-User-Id", user._id.toString())
+      .send({ before: movies[2]._id.toString() })
+      .expect(200);
+
+    expect(await customOrder(user._id.toString())).toEqual([
+      "Movie 1",
+      "Movie 3",
+      "Movie 2",
+    ]);
+
+    const after = await MyListItemModel.find({ userId: user._id }).lean();
+    const changed = after.filter(
+      (doc) =>
+        before.find((b) => b._id.equals(doc._id as any))?.rank !== doc.rank,
+    );
+    expect(changed).toHaveLength(1);
+  });
+
+  test("moves an item after the last item", async () => {
+    const { user, movies } = await seedList(3);
+
+    await request(app)
+      .patch(`/api/mylist/${movies[2]._id}/position`)
+      .set("X-User-Id", user._id.toString())
+      .send({ after: movies[0]._id.toString() })
+      .expect(200);
+
+    expect(await customOrder(user._id.toString())).toEqual([
+      "Movie 2",
+      "Movie 1",
+      "Movie 3",
+    ]);
+  });
+
+  test("reads leave legacy items unranked until the backfill", async () => {
+    const user = await UserModel.create({ username: "legacy" });
+    const docs = [1, 2, 3].map((i) => ({
+      userId: user._id,
+      contentType: "movie",
+      contentId: new mongoose.Types.ObjectId(),
+      addedAt: new Date(Date.now() - i * 1000),
+      snapshot: { title: `Legacy ${i}` },
+    }));
+    await MyListItemModel.insertMany(docs);
+    const unranked = () =>
+      MyListItemModel.countDocuments({
+        userId: user._id,
+        rank: { $exists: false },
+      });
+
+    expect(await customOrder(user._id.toString())).toHaveLength(3);
+    expect(await unranked()).toBe(3);
+
+    expect(await backfillRanks()).toBe(1);
+    expect(await unranked()).toBe(0);
+    expect(await customOrder(user._id.toString())).toEqual([
+      "Legacy 1",
+      "Legacy 2",
+      "Legacy 3",
+    ]);
+  });
+
+  test("pages through unranked items with sort=custom", async () => {
+    const user = await UserModel.create({ username: "legacy" });
+    await MyListItemModel.insertMany(
+      [1, 2, 3].map((i) => ({
+        userId: user._id,
+        contentType: "movie",
+        contentId: new mongoose.Types.ObjectId(),
+        snapshot: { title: `Legacy ${i}` },
+      })),
+    );
+
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const query: string = cursor
+        ? `&cursor=${encodeURIComponent(cursor)}`
+        : "";
+      const res = await request(app)
+        .get(`/api/mylist?sort=custom&limit=2${query}`)
+        .set("X-User-Id", user._id.toString())
+        .expect(200);
+      seen.push(...res.body.items.map((item: any) => item.snapshot.title));
+      cursor = res.body.nextCursor;
+    } while (cursor);
+    expect(seen).toEqual(["Legacy 1", "Legacy 2", "Legacy 3"]);
+  });
+
+  test("returns 400 when both before and after are given", async () => {
+    const { user, movies } = await seedList(2);
+
+    await request(app)
+      .patch(`/api/mylist/${movies[0]._id}/position`)
+      .set("X-User-Id", user._id.toString())
+      .send({
+        before: movies[1]._id.toString(),
+        after: movies[1]._id.toString(),
+      })
+      .expect(400);
+  });
+
+  test("returns 404 when the anchor is not in the list", async () => {
+    const { user, movies } = await seedList(1);
+
+    await request(app)
+      .patch(`/api/mylist/${movies[0]._id}/position`)
+      .set("X-User-Id", user._id.toString())
+      .send({ before: new mongoose.Types.ObjectId().toString() })
+      .expect(404);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * tests/integration/nextEpisode.test.ts
+ *
+ * Integration tests for next episode resolution of saved shows
+ * (GET /api/mylist/:contentId/next and nextEpisode on list items).
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import TvShowModel from "../../src/models/tvShow";
+import EpisodeModel from "../../src/models/episode";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const user = await UserModel.create({ username: "binger" });
+  const tvshow = await TvShowModel.create({ title: "Two Seasons" });
+  const [s1e1, s1e2, s2e1] = await EpisodeModel.create([
+    { showId: tvshow._id, season: 1, episodeNumber: 1, title: "S1E1" },
+    { showId: tvshow._id, season: 1, episodeNumber: 2, title: "S1E2" },
+    { showId: tvshow._id, season: 2, episodeNumber: 1, title: "S2E1" },
+  ]);
+  const userId = user._id.toString();
+  const showId = tvshow._id.toString();
+  await request(app)
+    .post("/api/mylist")
+    .set("X-User-Id", userId)
+    .send({
+      contentType: "tvshow",
+      contentId: showId,
+      snapshot: { title: "t" },
+    })
+    .expect(201);
+  return { userId, showId, s1e1, s1e2, s2e1 };
+}
+
+function watch(userId: string, showId: string, episodeId: any, done = true) {
+  return request(app)
+    .put(`/api/progress/${showId}`)
+    .set("X-User-Id", userId)
+    .send({
+      contentType: "tvshow",
+      episodeId: episodeId.toString(),
+      positionSeconds: 60,
+      completed: done,
+    })
+    .expect(200);
+}
+
+function next(userId: string, showId: string) {
+  return request(app)
+    .get(`/api/mylist/${showId}/next`)
+    .set("X-User-Id", userId)
+    .expect(200);
+}
+
+describe("next episode", () => {
+  test("starts with the first episode", async () => {
+    const { userId, showId } = await seedAll();
+
+    const res = await next(userId, showId);
+    expect(res.body.reason).toBe("start");
+    expect(res.body.episode.title).toBe("S1E1");
+  });
+
+  test("resumes an unfinished episode", async () => {
+    const { userId, showId, s1e2 } = await seedAll();
+    await watch(userId, showId, s1e2._id, false);
+
+    const res = await next(userId, showId);
+    expect(res.body.reason).toBe("resume");
+    expect(res.body.episode.title).toBe("S1E2");
+  });
+
+  test("rolls over to the next season", async () => {
+    const { userId, showId, s1e2 } = await seedAll();
+    await watch(userId, showId, s1e2._id);
+
+    const res = await next(userId, showId);
+    expect(res.body.reason).toBe("next");
+    expect(res.body.episode.title).toBe("S2E1");
+
+    // list items carry the same answer
+    const list = await request(app)
+      .get("/api/mylist")
+      .set("X-User-Id", userId)
+      .expect(200);
+    expect(list.body.items[0].nextEpisode.episode.title).toBe("S2E1");
+  });
+
+  test("reports the end of the series", async () => {
+    const { userId, showId, s2e1 } = await seedAll();
+    await watch(userId, showId, s2e1._id);
+
+    const res = await next(userId, showId);
+    expect(res.body.reason).toBe("finished");
+    expect(res.body.episode).toBeNull();
+  });
+
+  test("resolves every show of a page with one episode query", async () => {
+    const { userId, showId, s1e1 } = await seedAll();
+    const other = await TvShowModel.create({ title: "Fresh Show" });
+    await EpisodeModel.create({
+      showId: other._id,
+      season: 1,
+      episodeNumber: 1,
+      title: "Pilot",
+    });
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", userId)
+      .send({
+        contentType: "tvshow",
+        contentId: other._id.toString(),
+        snapshot: { title: "t" },
+      })
+      .expect(201);
+    await watch(userId, showId, s1e1._id);
+
+    const aggregate = jest.spyOn(EpisodeModel, "aggregate");
+    const findOne = jest.spyOn(EpisodeModel, "findOne");
+    const list = await request(app)
+      .get("/api/mylist")
+      .set("X-User-Id", userId)
+      .expect(200);
+    expect(aggregate).toHaveBeenCalledTimes(1);
+    expect(findOne).not.toHaveBeenCalled();
+    aggregate.mockRestore();
+    findOne.mockRestore();
+
+    const titles = list.body.items.map((item: any) => [
+      item.nextEpisode.reason,
+      item.nextEpisode.episode.title,
+    ]);
+    expect(titles).toEqual([
+      ["start", "Pilot"],
+      ["next", "S1E2"],
+    ]);
+  });
+
+  test("returns 404 for a show that is not saved", async () => {
+    const { userId } = await seedAll();
+    const other = await TvShowModel.create({ title: "Not Saved" });
+
+    await request(app)
+      .get(`/api/mylist/${other._id}/next`)
+      .set("X-User-Id", userId)
+      .expect(404);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * tests/integration/pageCache.test.ts
+ *
+ * Integration tests for list page cache misses: shared builds, rebuild locks
+ * and stale pages.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import type { Express } from "express";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import MyListItemModel from "../../src/models/myListItem";
+import { cache } from "../../src/services/myList.cache";
+
+// serve stale pages in this suite; read when the app is loaded
+process.env.MYLIST_CACHE_STALE_SECONDS = "30";
+
+let app: Express;
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  app = (await import("../../src/app")).default;
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const user = await UserModel.create({ username: "popular" });
+  const movies = await MovieModel.create([
+    { title: "First" },
+    { title: "Second" },
+  ]);
+  return { userId: user._id.toString(), movies };
+}
+
+function add(userId: string, contentId: string) {
+  return request(app)
+    .post("/api/mylist")
+    .set("X-User-Id", userId)
+    .send({ contentType: "movie", contentId, snapshot: { title: "t" } })
+    .expect(201);
+}
+
+function list(userId: string, query = "") {
+  return request(app)
+    .get(`/api/mylist${query}`)
+    .set("X-User-Id", userId)
+    .expect(200);
+}
+
+// another instance holds every rebuild lock
+function lockedElsewhere() {
+  const set = cache.set.bind(cache);
+  jest
+    .spyOn(cache, "set")
+    .mockImplementation(async (key: string, value: string, opts?: any) =>
+      key.endsWith(":lock") ? false : set(key, value, opts),
+    );
+}
+
+describe("page cache misses", () => {
+  test("concurrent misses of one page share a single build", async () => {
+    const { userId, movies } = await seedAll();
+    await add(userId, movies[0]._id.toString());
+    const find = jest.spyOn(MyListItemModel, "find");
+
+    const pages = await Promise.all(
+      Array.from({ length: 5 }, () => list(userId)),
+    );
+    expect(find).toHaveBeenCalledTimes(1);
+    for (const page of pages) expect(page.body.items).toHaveLength(1);
+  });
+
+  test("serves the previous version while another instance rebuilds", async () => {
+    const { userId, movies } = await seedAll();
+    await add(userId, movies[0]._id.toString());
+    await list(userId);
+    await add(userId, movies[1]._id.toString());
+
+    lockedElsewhere();
+    const stale = await list(userId);
+    expect(stale.body.items).toHaveLength(1);
+    expect(stale.body.stale).toBe(true);
+    expect(stale.headers.etag).toBeUndefined();
+
+    jest.restoreAllMocks();
+    const fresh = await list(userId);
+    expect(fresh.body.items).toHaveLength(2);
+    expect(fresh.body.stale).toBeUndefined();
+    expect(fresh.headers.etag).toBeDefined();
+  });
+
+  test("without a previous page, waits and then builds it", async () => {
+    const { userId, movies } = await seedAll();
+    await add(userId, movies[0]._id.toString());
+
+    lockedElsewhere();
+    const res = await list(userId, "?limit=5");
+    expect(res.body.items).toHaveLength(1);
+    expect(res.body.stale).toBeUndefined();
+  });
+});
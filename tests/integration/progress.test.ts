@@ -0,0 +1,155 @@
+/**
+ * tests/integration/progress.test.ts
+ *
+ * Integration tests for watch progress (/api/progress), its annotation on
+ * GET /api/mylist items and auto-removal of watched movies.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import MyListItemModel from "../../src/models/myListItem";
+import TvShowModel from "../../src/models/tvShow";
+import EpisodeModel from "../../src/models/episode";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const user = await UserModel.create({ username: "watcher" });
+  const movie = await MovieModel.create({
+    title: "Two Hours",
+    durationMinutes: 120,
+  });
+  const tvshow = await TvShowModel.create({ title: "Show" });
+  const episode = await EpisodeModel.create({
+    showId: tvshow._id,
+    season: 1,
+    episodeNumber: 1,
+    title: "Pilot",
+    durationMinutes: 50,
+  });
+  const userId = user._id.toString();
+  for (const body of [
+    { contentType: "movie", contentId: movie._id.toString() },
+    { contentType: "tvshow", contentId: tvshow._id.toString() },
+  ]) {
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", userId)
+      .send({ ...body, snapshot: { title: "t" } })
+      .expect(201);
+  }
+  return { user, userId, movie, tvshow, episode };
+}
+
+function report(userId: string, contentId: string, body: any) {
+  return request(app)
+    .put(`/api/progress/${contentId}`)
+    .set("X-User-Id", userId)
+    .send(body);
+}
+
+describe("watch progress", () => {
+  test("list items carry progress and percent complete", async () => {
+    const { userId, movie, tvshow, episode } = await seedAll();
+
+    // cache the page before any progress exists
+    await request(app).get("/api/mylist").set("X-User-Id", userId).expect(200);
+
+    await report(userId, movie._id.toString(), {
+      contentType: "movie",
+      positionSeconds: 1800,
+    }).expect(200);
+    await report(userId, tvshow._id.toString(), {
+      contentType: "tvshow",
+      episodeId: episode._id.toString(),
+      positionSeconds: 600,
+    }).expect(200);
+
+    const res = await request(app)
+      .get("/api/mylist")
+      .set("X-User-Id", userId)
+      .expect(200);
+    const [showItem, movieItem] = res.body.items;
+    expect(movieItem.progress).toMatchObject({
+      positionSeconds: 1800,
+      percent: 25,
+      completed: false,
+    });
+    // a show-level save shows its most recently watched episode
+    expect(showItem.progress).toMatchObject({
+      episodeId: episode._id.toString(),
+      percent: 20,
+    });
+  });
+
+  test("reaching the end marks a movie watched", async () => {
+    const { userId, movie } = await seedAll();
+
+    const res = await report(userId, movie._id.toString(), {
+      contentType: "movie",
+      positionSeconds: 7000,
+    }).expect(200);
+    expect(res.body.progress.completed).toBe(true);
+    // still in the list without autoRemoveWatched
+    expect(res.body.removedFromLists).toBe(0);
+    expect(await MyListItemModel.countDocuments({ contentId: movie._id })).toBe(
+      1,
+    );
+  });
+
+  test("autoRemoveWatched removes a watched movie from the list", async () => {
+    const { userId, movie } = await seedAll();
+    await request(app)
+      .patch("/api/progress/settings")
+      .set("X-User-Id", userId)
+      .send({ autoRemoveWatched: true })
+      .expect(200);
+
+    const res = await report(userId, movie._id.toString(), {
+      contentType: "movie",
+      positionSeconds: 60,
+      completed: true,
+    }).expect(200);
+
+    expect(res.body.removedFromLists).toBe(1);
+    expect(
+      await MyListItemModel.countDocuments({
+        contentId: movie._id,
+        deletedAt: null,
+      }),
+    ).toBe(0);
+  });
+
+  test("show progress requires an episode of that show", async () => {
+    const { userId, tvshow } = await seedAll();
+
+    await report(userId, tvshow._id.toString(), {
+      contentType: "tvshow",
+      positionSeconds: 10,
+    }).expect(400);
+  });
+});
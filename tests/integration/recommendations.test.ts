@@ -0,0 +1,156 @@
+/**
+ * tests/integration/recommendations.test.ts
+ *
+ * Integration tests for GET /api/recommendations: genre scoring from saved
+ * titles and preferences, exclusion of saved content and pagination.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import TvShowModel from "../../src/models/tvShow";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll(preferences: any = {}) {
+  const user = await UserModel.create({ username: "picky", preferences });
+  const saved = await MovieModel.create({
+    title: "Saved Thriller",
+    genres: ["Thriller", "Crime"],
+  });
+  const [crime, thriller, horror, romance] = await MovieModel.create([
+    { title: "Crime Thriller", genres: ["Thriller", "Crime"] },
+    { title: "Plain Thriller", genres: ["Thriller"] },
+    { title: "Scary Thriller", genres: ["Thriller", "Horror"] },
+    { title: "Love Story", genres: ["Romance"] },
+  ]);
+  const show = await TvShowModel.create({
+    title: "Crime Show",
+    genres: ["Crime"],
+  });
+  const userId = user._id.toString();
+  await request(app)
+    .post("/api/mylist")
+    .set("X-User-Id", userId)
+    .send({
+      contentType: "movie",
+      contentId: saved._id.toString(),
+      snapshot: { title: saved.title },
+    })
+    .expect(201);
+  return { userId, saved, crime, thriller, horror, romance, show };
+}
+
+function recommendations(userId: string, query = "") {
+  return request(app)
+    .get(`/api/recommendations${query}`)
+    .set("X-User-Id", userId)
+    .expect(200);
+}
+
+describe("GET /api/recommendations", () => {
+  test("ranks unsaved titles by genre overlap with the list", async () => {
+    const { userId, saved, crime, romance, show } = await seedAll();
+
+    const res = await recommendations(userId);
+    const ids = res.body.items.map((i: any) => i.contentId);
+    expect(ids[0]).toBe(crime._id.toString());
+    expect(ids).not.toContain(saved._id.toString());
+    expect(ids).not.toContain(romance._id.toString());
+    expect(res.body.items[0].matchedGenres).toEqual(["Thriller", "Crime"]);
+    const tv = res.body.items.find(
+      (i: any) => i.contentId === show._id.toString(),
+    );
+    expect(tv.contentType).toBe("tvshow");
+  });
+
+  test("favorite genres add to and disliked genres subtract from the score", async () => {
+    const { userId, horror, romance } = await seedAll({
+      favoriteGenres: ["Romance"],
+      dislikedGenres: ["Horror"],
+    });
+
+    const res = await recommendations(userId);
+    const ids = res.body.items.map((i: any) => i.contentId);
+    expect(ids).toContain(romance._id.toString());
+    // Thriller (+5) - Horror (5) leaves nothing
+    expect(ids).not.toContain(horror._id.toString());
+  });
+
+  test("saving a recommended title removes it from the next response", async () => {
+    const { userId, crime } = await seedAll();
+    await recommendations(userId);
+
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", userId)
+      .send({
+        contentType: "movie",
+        contentId: crime._id.toString(),
+        snapshot: { title: crime.title },
+      })
+      .expect(201);
+
+    const res = await recommendations(userId);
+    const ids = res.body.items.map((i: any) => i.contentId);
+    expect(ids).not.toContain(crime._id.toString());
+  });
+
+  test("paginates with a cursor without repeating titles", async () => {
+    const { userId } = await seedAll();
+
+    const first = await recommendations(userId, "?limit=2");
+    expect(first.body.items).toHaveLength(2);
+    expect(first.body.nextCursor).toBeTruthy();
+
+    const second = await recommendations(
+      userId,
+      `?limit=2&cursor=${encodeURIComponent(first.body.nextCursor)}`,
+    );
+    const firstIds = first.body.items.map((i: any) => i.contentId);
+    for (const item of second.body.items) {
+      expect(firstIds).not.toContain(item.contentId);
+    }
+    expect(second.body.nextCursor).toBeNull();
+  });
+
+  test("returns nothing for a user without saves or favorites", async () => {
+    const user = await UserModel.create({ username: "new" });
+    await MovieModel.create({ title: "Any", genres: ["Drama"] });
+
+    const res = await recommendations(user._id.toString());
+    expect(res.body.items).toEqual([]);
+  });
+
+  test("returns 400 for a malformed cursor", async () => {
+    const { userId } = await seedAll();
+
+    await request(app)
+      .get("/api/recommendations?cursor=bm9wZQ")
+      .set("X-User-Id", userId)
+      .expect(400);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * tests/integration/share.test.ts
+ *
+ * Integration tests for share links (/api/lists/:listId/shares) and the
+ * public read-only view of a shared list (/api/shared/:token).
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const [owner, other] = await UserModel.create([
+    { username: "owner" },
+    { username: "other" },
+  ]);
+  const movies = await MovieModel.create([
+    { title: "One", durationMinutes: 90 },
+    { title: "Two" },
+    { title: "Three" },
+  ]);
+  const userId = owner._id.toString();
+  for (const movie of movies) {
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", userId)
+      .send({
+        contentType: "movie",
+        contentId: movie._id.toString(),
+        snapshot: { title: movie.title },
+      })
+      .expect(201);
+  }
+  return { userId, otherId: other._id.toString(), movies };
+}
+
+async function share(userId: string, listId = "default") {
+  const res = await request(app)
+    .post(`/api/lists/${listId}/shares`)
+    .set("X-User-Id", userId)
+    .expect(201);
+  return res.body.share;
+}
+
+describe("shared lists", () => {
+  test("anyone with the token reads snapshots without ids of the owner", async () => {
+    const { userId, movies } = await seedAll();
+    // owner watch state must not leak
+    await request(app)
+      .put(`/api/progress/${movies[0]._id}`)
+      .set("X-User-Id", userId)
+      .send({ contentType: "movie", positionSeconds: 600 })
+      .expect(200);
+    const { token, path } = await share(userId);
+    expect(path).toBe(`/api/shared/${token}`);
+
+    const res = await request(app).get(path).expect(200);
+    expect(res.body.items).toHaveLength(3);
+    expect(res.body.items[0].snapshot.title).toBe("Three");
+    const body = JSON.stringify(res.body);
+    expect(body).not.toContain(userId);
+    for (const item of res.body.items) {
+      expect(item).not.toHaveProperty("userId");
+      expect(item).not.toHaveProperty("_id");
+      expect(item).not.toHaveProperty("progress");
+    }
+  });
+
+  test("paginates with the list cursor", async () => {
+    const { userId } = await seedAll();
+    const { path } = await share(userId);
+
+    const first = await request(app).get(`${path}?limit=2`).expect(200);
+    expect(first.body.items).toHaveLength(2);
+    const second = await request(app)
+      .get(
+        `${path}?limit=2&cursor=${encodeURIComponent(first.body.nextCursor)}`,
+      )
+      .expect(200);
+    expect(second.body.items.map((i: any) => i.snapshot.title)).toEqual([
+      "One",
+    ]);
+    expect(second.body.nextCursor).toBeNull();
+  });
+
+  test("a revoked token stops working immediately", async () => {
+    const { userId } = await seedAll();
+    const { id, path } = await share(userId);
+    // cache the token and the page
+    await request(app).get(path).expect(200);
+
+    const list = await request(app)
+      .get("/api/lists/default/shares")
+      .set("X-User-Id", userId)
+      .expect(200);
+    expect(list.body.shares.map((s: any) => s.id)).toEqual([id]);
+
+    await request(app)
+      .delete(`/api/lists/default/shares/${id}`)
+      .set("X-User-Id", userId)
+      .expect(200);
+    await request(app).get(path).expect(404);
+  });
+
+  test("deleting a named list revokes its share links", async () => {
+    const { userId } = await seedAll();
+    const created = await request(app)
+      .post("/api/lists")
+      .set("X-User-Id", userId)
+      .send({ name: "Weekend" })
+      .expect(201);
+    const listId = created.body.list.id;
+    const { path } = await share(userId, listId);
+    await request(app).get(path).expect(200);
+
+    await request(app)
+      .delete(`/api/lists/${listId}`)
+      .set("X-User-Id", userId)
+      .expect(200);
+    await request(app).get(path).expect(404);
+  });
+
+  test("users cannot share or revoke someone else's list", async () => {
+    const { userId, otherId } = await seedAll();
+    const created = await request(app)
+      .post("/api/lists")
+      .set("X-User-Id", userId)
+      .send({ name: "Private" })
+      .expect(201);
+
+    await request(app)
+      .post(`/api/lists/${created.body.list.id}/shares`)
+      .set("X-User-Id", otherId)
+      .expect(404);
+
+    const { id } = await share(userId);
+    await request(app)
+      .delete(`/api/lists/default/shares/${id}`)
+      .set("X-User-Id", otherId)
+      .expect(404);
+  });
+
+  test("returns 404 for an unknown token", async () => {
+    await request(app).get("/api/shared/not-a-token").expect(404);
+  });
+});
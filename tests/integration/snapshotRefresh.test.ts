@@ -0,0 +1,104 @@
+/**
+ * tests/integration/snapshotRefresh.test.ts
+ *
+ * Integration tests for refreshing list item snapshots when catalog titles change.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import MyListItemModel from "../../src/models/myListItem";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const users = await UserModel.create([
+    { username: "first" },
+    { username: "second" },
+  ]);
+  const movie = await MovieModel.create({
+    title: "Typo Tilte",
+    genres: ["Drama"],
+    posterUrl: "http://example.com/old.jpg",
+  });
+  for (const user of users) {
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", user._id.toString())
+      .send({
+        contentType: "movie",
+        contentId: movie._id.toString(),
+        snapshot: { title: movie.title, posterUrl: movie.posterUrl },
+      })
+      .expect(201);
+  }
+  return { users, movie };
+}
+
+describe("snapshot refresh", () => {
+  test("updating a movie rewrites snapshots of every saved item", async () => {
+    const { movie } = await seedAll();
+
+    await MovieModel.updateOne(
+      { _id: movie._id },
+      {
+        $set: { title: "Typo Title", posterUrl: "http://example.com/new.jpg" },
+      },
+    );
+
+    const items = await MyListItemModel.find({ contentId: movie._id }).lean();
+    expect(items).toHaveLength(2);
+    for (const item of items) {
+      expect(item.snapshot.title).toBe("Typo Title");
+      expect(item.snapshot.posterUrl).toBe("http://example.com/new.jpg");
+    }
+  });
+
+  test("saving a document with a new poster refreshes the snapshot", async () => {
+    const { movie } = await seedAll();
+
+    const doc = await MovieModel.findById(movie._id);
+    doc!.genres = ["Drama", "Thriller"];
+    await doc!.save();
+
+    const item = await MyListItemModel.findOne({ contentId: movie._id }).lean();
+    expect(item!.snapshot.genres).toEqual(["Drama", "Thriller"]);
+  });
+
+  test("updates of unrelated fields leave snapshots alone", async () => {
+    const { movie } = await seedAll();
+    const before = await MyListItemModel.findOne({
+      contentId: movie._id,
+    }).lean();
+
+    await MovieModel.updateOne({ _id: movie._id }, { $set: { director: "X" } });
+
+    const after = await MyListItemModel.findOne({
+      contentId: movie._id,
+    }).lean();
+    expect((after as any).updatedAt).toEqual((before as any).updatedAt);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * tests/integration/sortOrders.test.ts
+ *
+ * Integration tests for the addedAt_asc, title, releaseDate and duration sorts
+ * of GET /api/mylist and their sort-aware cursors.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import TvShowModel from "../../src/models/tvShow";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const user = await UserModel.create({ username: "sorter" });
+  const movies = await MovieModel.create([
+    {
+      title: "casablanca",
+      releaseDate: new Date("1942-11-26"),
+      durationMinutes: 102,
+    },
+    {
+      title: "Brazil",
+      releaseDate: new Date("1985-02-20"),
+      durationMinutes: 142,
+    },
+    {
+      title: "Alien",
+      releaseDate: new Date("1979-05-25"),
+      durationMinutes: 117,
+    },
+  ]);
+  const show = await TvShowModel.create({ title: "Dark" });
+  const userId = user._id.toString();
+  for (const content of [...movies, show]) {
+    await request(app)
+      .post("/api/mylist")
+      .set("X-User-Id", userId)
+      .send({
+        contentType: content === show ? "tvshow" : "movie",
+        contentId: content._id.toString(),
+        snapshot: { title: content.title },
+      })
+      .expect(201);
+  }
+  return { userId };
+}
+
+/** walk every page of a sort, one item per page */
+async function titlesInOrder(userId: string, sort: string) {
+  const titles: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const query: string =
+      `sort=${sort}&limit=1` +
+      (cursor ? `&cursor=${encodeURIComponent(cursor)}` : "");
+    const res = await request(app)
+      .get(`/api/mylist?${query}`)
+      .set("X-User-Id", userId)
+      .expect(200);
+    titles.push(...res.body.items.map((i: any) => i.snapshot.title));
+    cursor = res.body.nextCursor;
+  } while (cursor);
+  return titles;
+}
+
+describe("GET /api/mylist sort orders", () => {
+  test("addedAt_asc lists oldest saves first", async () => {
+    const { userId } = await seedAll();
+    expect(await titlesInOrder(userId, "addedAt_asc")).toEqual([
+      "casablanca",
+      "Brazil",
+      "Alien",
+      "Dark",
+    ]);
+  });
+
+  test("title sorts case-insensitively", async () => {
+    const { userId } = await seedAll();
+    expect(await titlesInOrder(userId, "title")).toEqual([
+      "Alien",
+      "Brazil",
+      "casablanca",
+      "Dark",
+    ]);
+  });
+
+  test("releaseDate lists newest first, titles without one last", async () => {
+    const { userId } = await seedAll();
+    expect(await titlesInOrder(userId, "releaseDate")).toEqual([
+      "Brazil",
+      "Alien",
+      "casablanca",
+      "Dark",
+    ]);
+  });
+
+  test("duration lists shortest first, titles without one first", async () => {
+    const { userId } = await seedAll();
+    expect(await titlesInOrder(userId, "duration")).toEqual([
+      "Dark",
+      "casablanca",
+      "Alien",
+      "Brazil",
+    ]);
+  });
+
+  test("rejects a cursor issued for another sort", async () => {
+    const { userId } = await seedAll();
+    const first = await request(app)
+      .get("/api/mylist?sort=title&limit=1")
+      .set("X-User-Id", userId)
+      .expect(200);
+    const cursor = encodeURIComponent(first.body.nextCursor);
+
+    for (const sort of ["duration", "addedAt", "custom"]) {
+      const res = await request(app)
+        .get(`/api/mylist?sort=${sort}&limit=1&cursor=${cursor}`)
+        .set("X-User-Id", userId);
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe("INVALID_CURSOR");
+    }
+  });
+});
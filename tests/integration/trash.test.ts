@@ -0,0 +1,164 @@
+/**
+ * tests/integration/trash.test.ts
+ *
+ * Integration tests for the trash: DELETE moves items there, GET /trash lists
+ * them and POST /:contentId/restore undoes the removal.
+ */
+
+import mongoose from "mongoose";
+import request from "supertest";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import app from "../../src/app";
+
+import UserModel from "../../src/models/user";
+import MovieModel from "../../src/models/movie";
+import MyListItemModel, {
+  TRASH_RETENTION_DAYS,
+} from "../../src/models/myListItem";
+
+let mongoServer: MongoMemoryServer;
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create();
+  const uri = mongoServer.getUri();
+  await mongoose.connect(uri, { dbName: "test" });
+});
+
+afterAll(async () => {
+  await mongoose.disconnect();
+  await mongoServer.stop();
+});
+
+afterEach(async () => {
+  // clear DB between tests
+  const models = mongoose.connection.models;
+  await Promise.all(
+    Object.keys(models).map((key) => models[key].deleteMany({})),
+  );
+});
+
+async function seedAll() {
+  const user = await UserModel.create({ username: "swiper" });
+  const movies = await MovieModel.create([
+    { title: "First" },
+    { title: "Second" },
+    { title: "Third" },
+  ]);
+  const userId = user._id.toString();
+  for (const movie of movies) {
+    await save(userId, movie._id.toString());
+  }
+  return { userId, movies };
+}
+
+function save(userId: string, contentId: string) {
+  return request(app)
+    .post("/api/mylist")
+    .set("X-User-Id", userId)
+    .send({ contentType: "movie", contentId, snapshot: { title: "t" } })
+    .expect(201);
+}
+
+function remove(userId: string, contentId: string) {
+  return request(app)
+    .delete(`/api/mylist/${contentId}`)
+    .set("X-User-Id", userId)
+    .expect(200);
+}
+
+async function contentIdsOf(userId: string) {
+  const res = await request(app)
+    .get("/api/mylist")
+    .set("X-User-Id", userId)
+    .expect(200);
+  return res.body.items.map((i: any) => i.contentId);
+}
+
+describe("trash", () => {
+  test("removed items move to the trash with a purge date", async () => {
+    const { userId, movies } = await seedAll();
+    await remove(userId, movies[1]._id.toString());
+
+    expect(await contentIdsOf(userId)).not.toContain(movies[1]._id.toString());
+
+    const trash = await request(app)
+      .get("/api/mylist/trash")
+      .set("X-User-Id", userId)
+      .expect(200);
+    expect(trash.body.items).toHaveLength(1);
+    const item = trash.body.items[0];
+    expect(item.contentId).toBe(movies[1]._id.toString());
+    const retention =
+      new Date(item.purgeAt).getTime() - new Date(item.deletedAt).getTime();
+    expect(retention).toBe(TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  });
+
+  test("restore puts the item back at its original position", async () => {
+    const { userId, movies } = await seedAll();
+    const before = await contentIdsOf(userId);
+    await remove(userId, movies[1]._id.toString());
+
+    const res = await request(app)
+      .post(`/api/mylist/${movies[1]._id}/restore`)
+      .set("X-User-Id", userId)
+      .expect(200);
+    expect(res.body.item.deletedAt).toBeNull();
+    expect(res.body.item.purgeAt).toBeUndefined();
+    expect(await contentIdsOf(userId)).toEqual(before);
+
+    const trash = await request(app)
+      .get("/api/mylist/trash")
+      .set("X-User-Id", userId)
+      .expect(200);
+    expect(trash.body.items).toHaveLength(0);
+  });
+
+  test("a trashed copy does not block adding the item again", async () => {
+    const { userId, movies } = await seedAll();
+    const contentId = movies[0]._id.toString();
+    await remove(userId, contentId);
+    await save(userId, contentId);
+    // removed and re-added once more: two copies in the trash
+    await remove(userId, contentId);
+    await save(userId, contentId);
+
+    expect(await MyListItemModel.countDocuments({ contentId })).toBe(3);
+    // restoring an item that is back in the list returns it
+    const res = await request(app)
+      .post(`/api/mylist/${contentId}/restore`)
+      .set("X-User-Id", userId)
+      .expect(200);
+    expect(res.body.item.deletedAt).toBeNull();
+    expect(
+      await MyListItemModel.countDocuments({ contentId, deletedAt: null }),
+    ).toBe(1);
+  });
+
+  test("returns 404 when restoring an item that is not in the trash", async () => {
+    const { userId } = await seedAll();
+    const other = await MovieModel.create({ title: "Never saved" });
+
+    await request(app)
+      .post(`/api/mylist/${other._id}/restore`)
+      .set("X-User-Id", userId)
+      .expect(404);
+  });
+
+  test("returns 400 when removing an invalid contentId", async () => {
+    const { userId } = await seedAll();
+
+    const res = await request(app)
+      .delete("/api/mylist/not-an-id")
+      .set("X-User-Id", userId)
+      .expect(400);
+    expect(res.body.code).toBe("INVALID_CONTENT_ID");
+  });
+
+  test("trashed items are purged by a TTL index on purgeAt", async () => {
+    const indexes = MyListItemModel.schema.indexes();
+    expect(indexes).toContainEqual([
+      { purgeAt: 1 },
+      expect.objectContaining({ expireAfterSeconds: 0 }),
+    ]);
+  });
+});
@@ -0,0 +1,7 @@
+// Auth settings for the test run; loaded before any test module.
+process.env.JWT_SECRET = "test-secret";
+process.env.JWT_AUDIENCE = "stage-mylist";
+// most suites identify the caller with X-User-Id
+process.env.AUTH_ALLOW_DEV_HEADER = "true";
+// integration tests need no Redis: one in-process cache per test file
+process.env.CACHE_BACKEND = "memory";